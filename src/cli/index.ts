@@ -5,7 +5,8 @@
 import { Command } from 'commander';
 import * as path from 'path';
 import * as fs from 'fs-extra';
-import { OptimizationConfig, DEFAULT_CONFIG } from '../types';
+import { OptimizationConfig, OutputFormat, EncodingMode, EncodingProfile, CompressionStrategy, PathRule, ResizeFit, ResizeKernel, DisplaySizeRule, CropStrategy, MetadataPolicy, OutputColorSpace, WhiteBalanceMode, ToneCurvePreset, WatermarkPosition, CROP_PRESETS, TONE_CURVES, DEFAULT_CONFIG, resolveCropPreset, parseDevelopSettings } from '../types';
+import { isOutputFormat, getOutputFormats } from '../core/format-converter';
 
 /**
  * CLI configuration interface
@@ -22,6 +23,44 @@ export interface CLIOptions {
   noProgress?: boolean;
   noReport?: boolean;
   reportFormat?: 'json' | 'text';
+  formats?: OutputFormat[];
+  mode?: 'auto' | EncodingMode;
+  profile?: 'auto' | EncodingProfile;
+  strategy?: 'auto' | CompressionStrategy;
+  rules?: PathRule[];
+  ruleMatch?: 'first' | 'most_specific';
+  maxWidth?: number;
+  maxHeight?: number;
+  fit?: ResizeFit;
+  background?: string;
+  kernel?: ResizeKernel;
+  maxUpscale?: number;
+  widths?: number[];
+  displaySizes?: DisplaySizeRule[];
+  densities?: number[];
+  svgWidths?: number[];
+  svgDensities?: number[];
+  svgBackground?: string;
+  crop?: string[];
+  cropStrategy?: CropStrategy;
+  focalPoints?: string;
+  metadata?: MetadataPolicy;
+  colorSpace?: OutputColorSpace;
+  whiteBalance?: WhiteBalanceMode;
+  exposure?: number;
+  highlightRecovery?: number;
+  toneCurve?: ToneCurvePreset;
+  dngPreview?: boolean;
+  watermark?: string;
+  watermarkText?: string;
+  watermarkPosition?: WatermarkPosition;
+  watermarkMargin?: number;
+  watermarkOpacity?: number;
+  watermarkScale?: number;
+  watermarkTile?: boolean;
+  noPlaceholders?: boolean;
+  maxBytes?: number;
+  targetSsim?: number;
   verbose?: boolean;
 }
 
@@ -58,6 +97,45 @@ export class CLIArgumentParser {
       .option('--no-progress', 'Disable progress reporting during batch processing')
       .option('--no-report', 'Skip generating optimization report')
       .option('--report-format <format>', 'Report format (json|text)', this.parseReportFormat, DEFAULT_CONFIG.output.reportFormat)
+      .option('-f, --format <formats>', `Output format or comma-separated fallback chain (${getOutputFormats().join('|')}, default: webp)`, this.parseOutputFormats)
+      .option('-m, --mode <mode>', 'Encoding mode (auto|lossy|near-lossless|lossless)', this.parseEncodingMode, DEFAULT_CONFIG.encoding.mode)
+      .option('-p, --profile <profile>', 'Encoder tuning profile (auto|photo|picture|drawing|icon|text)', this.parseEncodingProfile, DEFAULT_CONFIG.encoding.profile)
+      .option('-s, --strategy <strategy>', 'Compression strategy (auto|high-quality|balanced|size-optimized)', this.parseCompressionStrategy, DEFAULT_CONFIG.encoding.strategy)
+      .option('--rules <file>', 'JSON file with an ordered array of per-path rules (pattern, quality, strategy, maxWidth, maxHeight, formats, mode)')
+      .option('--rule-match <match>', 'Which matching path rule applies (first|most-specific)', this.parseRuleMatch, DEFAULT_CONFIG.rules.match)
+      .option('--max-width <pixels>', `Maximum output width (default: ${DEFAULT_CONFIG.dimensions.maxWidth})`, this.parseDimension)
+      .option('--max-height <pixels>', `Maximum output height (default: ${DEFAULT_CONFIG.dimensions.maxHeight})`, this.parseDimension)
+      .option('--fit <fit>', 'How images fill the max width x height box (inside|outside|cover|contain|fill)', this.parseFit, DEFAULT_CONFIG.dimensions.fit)
+      .option('--background <color>', 'Padding colour for --fit contain (default: transparent)')
+      .option('--kernel <kernel>', 'Resampling kernel (nearest|cubic|mitchell|lanczos2|lanczos3)', this.parseKernel, DEFAULT_CONFIG.dimensions.kernel)
+      .option('--max-upscale <factor>', 'Largest enlargement factor for small sources (default: 1, never enlarge)', this.parseMaxUpscale)
+      .option('-w, --widths <widths>', 'Comma-separated responsive srcset widths (e.g. 320,640,960,1280,1920)', this.parseWidthList)
+      .option('--display-size <pattern:size>', 'CSS display size for matching paths, e.g. "heroes/**:600x400" (repeatable)', this.parseDisplaySize)
+      .option('--densities <densities>', 'Pixel densities for paths with a display size (default: 1,2,3)', this.parseDensityList)
+      .option('--svg-widths <widths>', 'Comma-separated pixel widths to rasterise SVGs at (e.g. 600,1200)', this.parseWidthList)
+      .option('--svg-densities <densities>', 'Comma-separated multiples of the SVG intrinsic size (default: 1)', this.parseDensityList)
+      .option('--svg-background <color>', 'Background colour for transparent SVG areas (e.g. #ffffff)')
+      .option('--crop <presets>', `Comma-separated crop presets (${Object.keys(CROP_PRESETS).join('|')}) or W:H ratios, one extra output each`, this.parseCropPresets)
+      .option('--crop-strategy <strategy>', 'How crop regions are chosen (attention|entropy)', this.parseCropStrategy, DEFAULT_CONFIG.crop.strategy)
+      .option('--focal-points <file>', `JSON file of focal points by path or glob; per-image "<name>${DEFAULT_CONFIG.focalPoints.sidecarSuffix}" sidecars win`)
+      .option('--metadata <policy>', 'Source metadata kept in outputs (strip|icc|copyright|no-gps)', this.parseMetadataPolicy, DEFAULT_CONFIG.metadata.policy)
+      .option('--color-space <space>', 'Output colour space for wide-gamut sources (srgb|display-p3)', this.parseColorSpace, DEFAULT_CONFIG.color.output)
+      .option('--white-balance <mode>', 'DNG white balance (as-shot|auto)', this.parseWhiteBalance, DEFAULT_CONFIG.dng.whiteBalance)
+      .option('--exposure <ev>', 'DNG exposure compensation in EV stops (-5 to 5)', this.parseExposure, DEFAULT_CONFIG.dng.exposure)
+      .option('--highlight-recovery <amount>', 'DNG highlight roll-off, 0 clips and 1 is strongest', this.parseHighlightRecovery, DEFAULT_CONFIG.dng.highlightRecovery)
+      .option('--tone-curve <curve>', `DNG tone curve (${Object.keys(TONE_CURVES).join('|')})`, this.parseToneCurve, DEFAULT_CONFIG.dng.toneCurve)
+      .option('--dng-preview', 'Render DNGs from their embedded JPEG preview when it covers the output size')
+      .option('--watermark <file>', 'Watermark image composited onto every output, e.g. a transparent PNG logo')
+      .option('--watermark-text <text>', 'White text watermark, used when no watermark image is given')
+      .option('--watermark-position <position>', 'Watermark placement (top-left|top|top-right|left|center|right|bottom-left|bottom|bottom-right)', this.parseWatermarkPosition, DEFAULT_CONFIG.watermark.position)
+      .option('--watermark-margin <fraction>', `Watermark distance from the edges as a fraction of the output width (default: ${DEFAULT_CONFIG.watermark.margin})`, this.parseWatermarkMargin)
+      .option('--watermark-opacity <opacity>', `Watermark opacity from 0 to 1 (default: ${DEFAULT_CONFIG.watermark.opacity})`, this.parseWatermarkOpacity)
+      .option('--watermark-scale <fraction>', `Watermark width as a fraction of the output width (default: ${DEFAULT_CONFIG.watermark.scale})`, this.parseWatermarkScale)
+      .option('--watermark-tile', 'Repeat the watermark across the whole output')
+      .option('--no-placeholders', 'Skip the LQIP data URI, BlurHash and ThumbHash written to the manifest')
+      .option('--max-bytes <size>', 'Byte budget for every output, e.g. 150000, 150KB or 1.5MB, met by lowering quality and then size', this.parseByteSize)
+      .option('--target-ssim <score>', 'Encode each output at the lowest quality scoring at least this SSIM, e.g. 0.95', this.parseTargetSsim)
+      .option('--target-dssim <score>', 'Perceptual target as DSSIM (1/SSIM - 1) instead, e.g. 0.01', this.parseTargetDssim)
       .option('-v, --verbose', 'Enable verbose output with detailed processing information')
       .action(async (source: string, output: string | undefined, options: any) => {
         // This will be handled by the main CLI handler
@@ -77,6 +155,25 @@ Examples:
   $ image-optimizer ./images -c 8                    # Process 8 images concurrently
   $ image-optimizer ./images --no-progress           # Disable progress reporting
   $ image-optimizer ./images --report-format text    # Generate text report instead of JSON
+  $ image-optimizer ./images --format avif           # Encode to AVIF instead of WebP
+  $ image-optimizer ./images -f avif,webp,jpeg       # Emit AVIF, WebP and JPEG per image
+  $ image-optimizer ./thumbs --max-width 400 --max-height 400 --fit cover  # 400x400 smart-cropped thumbnails
+  $ image-optimizer ./images -w 320,640,1280         # Write name-320w.webp, name-640w.webp, name-1280w.webp
+  $ image-optimizer ./images --display-size "avatars/*:48"  # Write avatar@1x/@2x/@3x at 48, 96, 144px
+  $ image-optimizer ./logos --mode lossless          # Force lossless encoding
+  $ image-optimizer ./screenshots --profile text     # Force text/screenshot tuning
+  $ image-optimizer ./assets --strategy size-optimized  # Favour smaller files everywhere
+  $ image-optimizer ./assets --rules rules.json      # Per-folder quality, size, formats and mode
+  $ image-optimizer ./icons --svg-widths 1200 --svg-background "#fff" -f png  # OG images from SVG
+  $ image-optimizer ./photos --crop square,card,social  # Also write name-square, name-card and name-social crops
+  $ image-optimizer ./photos --crop square --focal-points focus.json  # Crop around declared focal points
+  $ image-optimizer ./uploads --metadata no-gps       # Keep camera data and colour profile, drop location
+  $ image-optimizer ./photos --color-space display-p3  # Keep P3 and Adobe RGB photos wide-gamut
+  $ image-optimizer ./raw --white-balance auto --exposure 0.5  # Develop DNGs brighter with neutral greys
+  $ image-optimizer ./raw --dng-preview --max-width 1200    # Use camera previews, develop only when too small
+  $ image-optimizer ./shop --watermark logo.png --watermark-opacity 0.4  # Semi-transparent logo bottom right
+  $ image-optimizer ./heroes --max-bytes 150KB       # Keep every output under 150 KB
+  $ image-optimizer ./photos --target-ssim 0.95 -v  # Smallest files that look equally good, with the search trace
   $ image-optimizer ./images -v                      # Enable verbose output
     `);
   }
@@ -99,6 +196,10 @@ Examples:
       if (!source) {
         throw new Error('Source directory is required');
       }
+      // The perceptual target is one score, given either as SSIM or as DSSIM
+      if (options.targetSsim !== undefined && options.targetDssim !== undefined) {
+        throw new Error('--target-ssim and --target-dssim cannot be combined, give the perceptual target once');
+      }
 
       // Build CLI options object
       const cliOptions: CLIOptions = {
@@ -113,6 +214,44 @@ Examples:
         noProgress: options.noProgress,
         noReport: options.noReport,
         reportFormat: options.reportFormat,
+        formats: options.format,
+        mode: options.mode,
+        profile: options.profile,
+        strategy: options.strategy,
+        rules: options.rules ? await this.loadPathRules(path.resolve(options.rules)) : undefined,
+        ruleMatch: options.ruleMatch,
+        maxWidth: options.maxWidth,
+        maxHeight: options.maxHeight,
+        fit: options.fit,
+        background: options.background,
+        kernel: options.kernel,
+        maxUpscale: options.maxUpscale,
+        widths: options.widths,
+        displaySizes: options.displaySize,
+        densities: options.densities,
+        svgWidths: options.svgWidths,
+        svgDensities: options.svgDensities,
+        svgBackground: options.svgBackground,
+        crop: options.crop,
+        cropStrategy: options.cropStrategy,
+        focalPoints: options.focalPoints ? path.resolve(options.focalPoints) : undefined,
+        metadata: options.metadata,
+        colorSpace: options.colorSpace,
+        whiteBalance: options.whiteBalance,
+        exposure: options.exposure,
+        highlightRecovery: options.highlightRecovery,
+        toneCurve: options.toneCurve,
+        dngPreview: options.dngPreview,
+        watermark: options.watermark ? path.resolve(options.watermark) : undefined,
+        watermarkText: options.watermarkText,
+        watermarkPosition: options.watermarkPosition,
+        watermarkMargin: options.watermarkMargin,
+        watermarkOpacity: options.watermarkOpacity,
+        watermarkScale: options.watermarkScale,
+        watermarkTile: options.watermarkTile,
+        noPlaceholders: options.placeholders === false,
+        maxBytes: options.maxBytes,
+        targetSsim: options.targetSsim ?? options.targetDssim,
         verbose: options.verbose
       };
 
@@ -143,9 +282,14 @@ Examples:
         minimum: DEFAULT_CONFIG.quality.minimum
       },
       dimensions: {
-        maxWidth: DEFAULT_CONFIG.dimensions.maxWidth,
-        maxHeight: DEFAULT_CONFIG.dimensions.maxHeight,
-        preserveAspectRatio: DEFAULT_CONFIG.dimensions.preserveAspectRatio
+        maxWidth: cliOptions.maxWidth || DEFAULT_CONFIG.dimensions.maxWidth,
+        maxHeight: cliOptions.maxHeight || DEFAULT_CONFIG.dimensions.maxHeight,
+        preserveAspectRatio: DEFAULT_CONFIG.dimensions.preserveAspectRatio,
+        widths: cliOptions.widths || DEFAULT_CONFIG.dimensions.widths,
+        fit: cliOptions.fit || DEFAULT_CONFIG.dimensions.fit,
+        background: cliOptions.background || DEFAULT_CONFIG.dimensions.background,
+        kernel: cliOptions.kernel || DEFAULT_CONFIG.dimensions.kernel,
+        maxUpscale: cliOptions.maxUpscale || DEFAULT_CONFIG.dimensions.maxUpscale
       },
       processing: {
         concurrency: cliOptions.concurrency || DEFAULT_CONFIG.processing.concurrency,
@@ -155,7 +299,70 @@ Examples:
       output: {
         preserveFilenames: DEFAULT_CONFIG.output.preserveFilenames,
         generateReport: !cliOptions.noReport,
-        reportFormat: cliOptions.reportFormat || DEFAULT_CONFIG.output.reportFormat
+        reportFormat: cliOptions.reportFormat || DEFAULT_CONFIG.output.reportFormat,
+        format: cliOptions.formats ? cliOptions.formats[0] : DEFAULT_CONFIG.output.format,
+        formats: cliOptions.formats
+      },
+      encoding: {
+        mode: cliOptions.mode || DEFAULT_CONFIG.encoding.mode,
+        profile: cliOptions.profile || DEFAULT_CONFIG.encoding.profile,
+        strategy: cliOptions.strategy || DEFAULT_CONFIG.encoding.strategy
+      },
+      rules: {
+        entries: cliOptions.rules || DEFAULT_CONFIG.rules.entries,
+        match: cliOptions.ruleMatch || DEFAULT_CONFIG.rules.match
+      },
+      density: {
+        displaySizes: cliOptions.displaySizes || DEFAULT_CONFIG.density.displaySizes,
+        densities: cliOptions.densities || DEFAULT_CONFIG.density.densities,
+        qualityStep: DEFAULT_CONFIG.density.qualityStep
+      },
+      svg: {
+        widths: cliOptions.svgWidths || DEFAULT_CONFIG.svg.widths,
+        densities: cliOptions.svgDensities || DEFAULT_CONFIG.svg.densities,
+        background: cliOptions.svgBackground || DEFAULT_CONFIG.svg.background
+      },
+      crop: {
+        presets: cliOptions.crop || DEFAULT_CONFIG.crop.presets,
+        strategy: cliOptions.cropStrategy || DEFAULT_CONFIG.crop.strategy
+      },
+      focalPoints: {
+        mapFile: cliOptions.focalPoints || DEFAULT_CONFIG.focalPoints.mapFile,
+        sidecarSuffix: DEFAULT_CONFIG.focalPoints.sidecarSuffix
+      },
+      metadata: {
+        policy: cliOptions.metadata || DEFAULT_CONFIG.metadata.policy
+      },
+      color: {
+        output: cliOptions.colorSpace || DEFAULT_CONFIG.color.output,
+        clipThreshold: DEFAULT_CONFIG.color.clipThreshold
+      },
+      dng: {
+        whiteBalance: cliOptions.whiteBalance || DEFAULT_CONFIG.dng.whiteBalance,
+        exposure: cliOptions.exposure ?? DEFAULT_CONFIG.dng.exposure,
+        highlightRecovery: cliOptions.highlightRecovery ?? DEFAULT_CONFIG.dng.highlightRecovery,
+        toneCurve: cliOptions.toneCurve || DEFAULT_CONFIG.dng.toneCurve,
+        sidecarSuffix: DEFAULT_CONFIG.dng.sidecarSuffix,
+        usePreview: cliOptions.dngPreview || DEFAULT_CONFIG.dng.usePreview
+      },
+      watermark: {
+        enabled: !!(cliOptions.watermark || cliOptions.watermarkText),
+        image: cliOptions.watermark || DEFAULT_CONFIG.watermark.image,
+        text: cliOptions.watermarkText || DEFAULT_CONFIG.watermark.text,
+        position: cliOptions.watermarkPosition || DEFAULT_CONFIG.watermark.position,
+        margin: cliOptions.watermarkMargin ?? DEFAULT_CONFIG.watermark.margin,
+        opacity: cliOptions.watermarkOpacity ?? DEFAULT_CONFIG.watermark.opacity,
+        scale: cliOptions.watermarkScale ?? DEFAULT_CONFIG.watermark.scale,
+        tile: cliOptions.watermarkTile || DEFAULT_CONFIG.watermark.tile
+      },
+      placeholders: {
+        enabled: !cliOptions.noPlaceholders
+      },
+      budget: {
+        maxBytes: cliOptions.maxBytes ?? DEFAULT_CONFIG.budget.maxBytes
+      },
+      perceptual: {
+        targetSsim: cliOptions.targetSsim ?? DEFAULT_CONFIG.perceptual.targetSsim
       },
       supportedFormats: DEFAULT_CONFIG.supportedFormats
     };
@@ -223,6 +430,470 @@ Examples:
     return value;
   }
 
+  /**
+   * Parse comma-separated output formats with validation
+   * @param value - Output format list string (e.g. 'avif,webp,jpeg')
+   * @returns Validated output formats in fallback chain order
+   */
+  private parseOutputFormats(value: string): OutputFormat[] {
+    const formats: OutputFormat[] = [];
+
+    for (const entry of value.split(',')) {
+      let format = entry.trim().toLowerCase();
+      if (format === 'jpg') {
+        format = 'jpeg';
+      }
+      if (!isOutputFormat(format)) {
+        throw new Error(`Output format must be one of ${getOutputFormats().join(', ')}, got: ${entry.trim()}`);
+      }
+      if (!formats.includes(format)) {
+        formats.push(format);
+      }
+    }
+
+    if (formats.length === 0) {
+      throw new Error('At least one output format is required');
+    }
+    return formats;
+  }
+
+  /**
+   * Parse a maximum dimension with validation
+   * @param value - Pixel count string
+   * @returns Validated pixel count
+   */
+  private parseDimension(value: string): number {
+    const pixels = parseInt(value, 10);
+    if (isNaN(pixels) || pixels < 1 || pixels > 16384) {
+      throw new Error(`Dimensions must be numbers between 1 and 16384, got: ${value}`);
+    }
+    return pixels;
+  }
+
+  /**
+   * Parse resize fit mode with validation
+   * @param value - Fit mode string
+   * @returns Validated fit mode
+   */
+  private parseFit(value: string): ResizeFit {
+    const fit = value.toLowerCase();
+    if (fit !== 'inside' && fit !== 'outside' && fit !== 'cover' && fit !== 'contain' && fit !== 'fill') {
+      throw new Error(`Fit must be one of inside, outside, cover, contain, fill, got: ${value}`);
+    }
+    return fit;
+  }
+
+  /**
+   * Parse resampling kernel with validation
+   * @param value - Kernel name
+   * @returns Validated kernel
+   */
+  private parseKernel(value: string): ResizeKernel {
+    const kernel = value.toLowerCase();
+    if (kernel !== 'nearest' && kernel !== 'cubic' && kernel !== 'mitchell' && kernel !== 'lanczos2' && kernel !== 'lanczos3') {
+      throw new Error(`Kernel must be one of nearest, cubic, mitchell, lanczos2, lanczos3, got: ${value}`);
+    }
+    return kernel;
+  }
+
+  /**
+   * Parse maximum enlargement factor with validation
+   * @param value - Factor string (e.g. '2')
+   * @returns Validated factor
+   */
+  private parseMaxUpscale(value: string): number {
+    const factor = parseFloat(value);
+    if (isNaN(factor) || factor < 1 || factor > 8) {
+      throw new Error(`Max upscale must be a number between 1 and 8, got: ${value}`);
+    }
+    return factor;
+  }
+
+  /**
+   * Parse comma-separated pixel widths with validation
+   * @param value - Width list string (e.g. '320,640,960')
+   * @returns Validated widths in ascending order
+   */
+  private parseWidthList(value: string): number[] {
+    const widths = value.split(',').map(entry => {
+      const width = parseInt(entry.trim(), 10);
+      if (isNaN(width) || width < 1 || width > 16384) {
+        throw new Error(`Widths must be numbers between 1 and 16384, got: ${entry.trim()}`);
+      }
+      return width;
+    });
+    return [...new Set(widths)].sort((a, b) => a - b);
+  }
+
+  /**
+   * Parse comma-separated density multiples with validation
+   * @param value - Density list string (e.g. '1,2,3')
+   * @returns Validated densities in ascending order
+   */
+  private parseDensityList(value: string): number[] {
+    const densities = value.split(',').map(entry => {
+      const density = parseFloat(entry.trim());
+      if (isNaN(density) || density <= 0 || density > 8) {
+        throw new Error(`Densities must be numbers greater than 0 and at most 8, got: ${entry.trim()}`);
+      }
+      return density;
+    });
+    return [...new Set(densities)].sort((a, b) => a - b);
+  }
+
+  /**
+   * Parse comma-separated crop presets with validation
+   * @param value - Crop preset list string (e.g. 'square,card' or '3:2')
+   * @returns Validated crop presets in output order
+   */
+  private parseCropPresets(value: string): string[] {
+    const presets = value.split(',').map(entry => {
+      const preset = entry.trim().toLowerCase();
+      if (!resolveCropPreset(preset)) {
+        throw new Error(`Crop presets must be one of ${Object.keys(CROP_PRESETS).join(', ')} or a W:H ratio, got: ${entry.trim()}`);
+      }
+      return preset;
+    });
+    return [...new Set(presets)];
+  }
+
+  /**
+   * Parse crop strategy with validation
+   * @param value - Crop strategy string
+   * @returns Validated crop strategy
+   */
+  private parseCropStrategy(value: string): CropStrategy {
+    if (value !== 'attention' && value !== 'entropy') {
+      throw new Error(`Crop strategy must be 'attention' or 'entropy', got: ${value}`);
+    }
+    return value;
+  }
+
+  /**
+   * Parse metadata policy with validation
+   * @param value - Metadata policy string
+   * @returns Validated metadata policy
+   */
+  private parseMetadataPolicy(value: string): MetadataPolicy {
+    const policy = value.toLowerCase().replace('-', '_');
+    if (policy !== 'strip' && policy !== 'icc' && policy !== 'copyright' && policy !== 'no_gps') {
+      throw new Error(`Metadata policy must be 'strip', 'icc', 'copyright' or 'no-gps', got: ${value}`);
+    }
+    return policy;
+  }
+
+  /**
+   * Parse output colour space with validation
+   * @param value - Colour space string
+   * @returns Validated output colour space
+   */
+  private parseColorSpace(value: string): OutputColorSpace {
+    const space = value.toLowerCase().replace('-', '_');
+    if (space !== 'srgb' && space !== 'display_p3') {
+      throw new Error(`Colour space must be 'srgb' or 'display-p3', got: ${value}`);
+    }
+    return space;
+  }
+
+  /**
+   * Parse DNG white balance mode with validation
+   * @param value - White balance string
+   * @returns Validated white balance mode
+   */
+  private parseWhiteBalance(value: string): WhiteBalanceMode {
+    const mode = value.toLowerCase().replace('-', '_');
+    if (mode !== 'as_shot' && mode !== 'auto') {
+      throw new Error(`White balance must be 'as-shot' or 'auto', got: ${value}`);
+    }
+    return mode;
+  }
+
+  /**
+   * Parse DNG exposure compensation with validation
+   * @param value - Exposure string in EV stops
+   * @returns Validated exposure compensation
+   */
+  private parseExposure(value: string): number {
+    const exposure = parseFloat(value);
+    if (isNaN(exposure) || exposure < -5 || exposure > 5) {
+      throw new Error(`Exposure must be between -5 and 5 EV, got: ${value}`);
+    }
+    return exposure;
+  }
+
+  /**
+   * Parse DNG highlight recovery amount with validation
+   * @param value - Amount string
+   * @returns Validated amount between 0 and 1
+   */
+  private parseHighlightRecovery(value: string): number {
+    const amount = parseFloat(value);
+    if (isNaN(amount) || amount < 0 || amount > 1) {
+      throw new Error(`Highlight recovery must be between 0 and 1, got: ${value}`);
+    }
+    return amount;
+  }
+
+  /**
+   * Parse DNG tone curve preset with validation
+   * @param value - Tone curve preset name
+   * @returns Validated tone curve preset
+   */
+  private parseToneCurve(value: string): ToneCurvePreset {
+    const curve = value.toLowerCase().replace('-', '_');
+    if (!Object.prototype.hasOwnProperty.call(TONE_CURVES, curve)) {
+      throw new Error(`Tone curve must be one of ${Object.keys(TONE_CURVES).join(', ')}, got: ${value}`);
+    }
+    return curve as ToneCurvePreset;
+  }
+
+  /**
+   * Parse watermark position with validation
+   * @param value - Position string, e.g. 'bottom-right'
+   * @returns Validated watermark position
+   */
+  private parseWatermarkPosition(value: string): WatermarkPosition {
+    const position = value.toLowerCase().replace('-', '_');
+    const positions = ['top_left', 'top', 'top_right', 'left', 'center', 'right', 'bottom_left', 'bottom', 'bottom_right'];
+    if (!positions.includes(position)) {
+      throw new Error(`Watermark position must be one of ${positions.map(name => name.replace('_', '-')).join(', ')}, got: ${value}`);
+    }
+    return position as WatermarkPosition;
+  }
+
+  /**
+   * Parse watermark margin with validation
+   * @param value - Margin as a fraction of the output width
+   * @returns Validated margin
+   */
+  private parseWatermarkMargin(value: string): number {
+    const margin = parseFloat(value);
+    if (isNaN(margin) || margin < 0 || margin >= 0.5) {
+      throw new Error(`Watermark margin must be at least 0 and below 0.5, got: ${value}`);
+    }
+    return margin;
+  }
+
+  /**
+   * Parse watermark opacity with validation
+   * @param value - Opacity string
+   * @returns Validated opacity
+   */
+  private parseWatermarkOpacity(value: string): number {
+    const opacity = parseFloat(value);
+    if (isNaN(opacity) || opacity < 0 || opacity > 1) {
+      throw new Error(`Watermark opacity must be between 0 and 1, got: ${value}`);
+    }
+    return opacity;
+  }
+
+  /**
+   * Parse watermark scale with validation
+   * @param value - Mark width as a fraction of the output width
+   * @returns Validated scale
+   */
+  private parseWatermarkScale(value: string): number {
+    const scale = parseFloat(value);
+    if (isNaN(scale) || scale <= 0 || scale > 1) {
+      throw new Error(`Watermark scale must be above 0 and at most 1, got: ${value}`);
+    }
+    return scale;
+  }
+
+  /**
+   * Parse a byte size with an optional KB or MB suffix
+   * @param value - Size string (e.g. '150000', '150KB', '1.5MB')
+   * @returns Validated size in bytes
+   */
+  private parseByteSize(value: string): number {
+    const match = /^(\d+(?:\.\d+)?)\s*(b|k|kb|m|mb)?$/.exec(value.trim().toLowerCase());
+    const multiplier = !match || !match[2] || match[2] === 'b' ? 1 : match[2].startsWith('k') ? 1024 : 1024 * 1024;
+    const bytes = match ? Math.floor(parseFloat(match[1]) * multiplier) : NaN;
+    if (isNaN(bytes) || bytes < 1) {
+      throw new Error(`Byte size must be a positive number of bytes, KB or MB, got: ${value}`);
+    }
+    return bytes;
+  }
+
+  /**
+   * Parse a perceptual target as SSIM with validation
+   * @param value - SSIM string
+   * @returns Validated SSIM
+   */
+  private parseTargetSsim(value: string): number {
+    const ssim = parseFloat(value);
+    if (isNaN(ssim) || ssim <= 0 || ssim >= 1) {
+      throw new Error(`Target SSIM must be above 0 and below 1, got: ${value}`);
+    }
+    return ssim;
+  }
+
+  /**
+   * Parse a perceptual target as DSSIM and convert it to SSIM
+   * @param value - DSSIM string, where DSSIM = 1/SSIM - 1
+   * @returns Equivalent SSIM
+   */
+  private parseTargetDssim(value: string): number {
+    const dssim = parseFloat(value);
+    if (isNaN(dssim) || dssim <= 0) {
+      throw new Error(`Target DSSIM must be above 0, got: ${value}`);
+    }
+    return 1 / (1 + dssim);
+  }
+
+  /**
+   * Parse a path pattern and CSS display size, accumulating repeated options
+   * @param value - Display size string (e.g. 'heroes/**:600x400' or 'avatars/*:48')
+   * @param previous - Display sizes from earlier occurrences of the option
+   * @returns Display sizes in declaration order
+   */
+  private parseDisplaySize(value: string, previous: DisplaySizeRule[] = []): DisplaySizeRule[] {
+    const separator = value.lastIndexOf(':');
+    const pattern = value.slice(0, separator).trim();
+    const match = /^(\d+)(?:x(\d+))?$/.exec(value.slice(separator + 1).trim());
+    if (separator <= 0 || !pattern || !match) {
+      throw new Error(`Display size must look like <pattern>:<width>[x<height>], got: ${value}`);
+    }
+
+    return [
+      ...previous,
+      {
+        pattern,
+        width: parseInt(match[1], 10),
+        ...(match[2] ? { height: parseInt(match[2], 10) } : {})
+      }
+    ];
+  }
+
+  /**
+   * Parse encoding mode with validation
+   * @param value - Encoding mode string
+   * @returns Validated encoding mode
+   */
+  private parseEncodingMode(value: string): 'auto' | EncodingMode {
+    const mode = value.toLowerCase().replace('-', '_');
+    if (mode !== 'auto' && mode !== 'lossy' && mode !== 'near_lossless' && mode !== 'lossless') {
+      throw new Error(`Encoding mode must be 'auto', 'lossy', 'near-lossless' or 'lossless', got: ${value}`);
+    }
+    return mode;
+  }
+
+  /**
+   * Parse encoder tuning profile with validation
+   * @param value - Profile string
+   * @returns Validated profile
+   */
+  private parseEncodingProfile(value: string): 'auto' | EncodingProfile {
+    const profile = value.toLowerCase();
+    if (profile !== 'auto' && profile !== 'photo' && profile !== 'picture' &&
+        profile !== 'drawing' && profile !== 'icon' && profile !== 'text') {
+      throw new Error(`Encoder profile must be one of auto, photo, picture, drawing, icon, text, got: ${value}`);
+    }
+    return profile;
+  }
+
+  /**
+   * Parse compression strategy with validation
+   * @param value - Strategy string (e.g. 'high-quality')
+   * @returns Validated strategy
+   */
+  private parseCompressionStrategy(value: string): 'auto' | CompressionStrategy {
+    const strategy = value.toLowerCase().replace('-', '_');
+    if (strategy !== 'auto' && strategy !== 'high_quality' && strategy !== 'balanced' && strategy !== 'size_optimized') {
+      throw new Error(`Compression strategy must be 'auto', 'high-quality', 'balanced' or 'size-optimized', got: ${value}`);
+    }
+    return strategy;
+  }
+
+  /**
+   * Parse path rule matching policy with validation
+   * @param value - Matching policy string
+   * @returns Validated matching policy
+   */
+  private parseRuleMatch(value: string): 'first' | 'most_specific' {
+    const match = value.toLowerCase().replace('-', '_');
+    if (match !== 'first' && match !== 'most_specific') {
+      throw new Error(`Rule match must be 'first' or 'most-specific', got: ${value}`);
+    }
+    return match;
+  }
+
+  /**
+   * Load and validate ordered path rules from a JSON file
+   * @param rulesPath - Path to a JSON array of rules
+   * @returns Validated path rules in file order
+   */
+  private async loadPathRules(rulesPath: string): Promise<PathRule[]> {
+    let entries: unknown;
+    try {
+      entries = await fs.readJson(rulesPath);
+    } catch (error) {
+      throw new Error(`Failed to read rules file ${rulesPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    if (!Array.isArray(entries)) {
+      throw new Error(`Rules file ${rulesPath} must contain an array of rules`);
+    }
+
+    return entries.map((entry: any, index: number) => {
+      if (!entry || typeof entry.pattern !== 'string' || !entry.pattern) {
+        throw new Error(`Rule ${index + 1} in ${rulesPath} needs a pattern`);
+      }
+
+      const rule: PathRule = { pattern: entry.pattern };
+      if (entry.name !== undefined) {
+        rule.name = String(entry.name);
+      }
+      if (entry.quality !== undefined) {
+        rule.quality = this.parseQuality(String(entry.quality));
+      }
+      if (entry.strategy !== undefined) {
+        const strategy = this.parseCompressionStrategy(String(entry.strategy));
+        if (strategy !== 'auto') {
+          rule.strategy = strategy;
+        }
+      }
+      for (const dimension of ['maxWidth', 'maxHeight'] as const) {
+        if (entry[dimension] !== undefined) {
+          const value = Number(entry[dimension]);
+          if (!Number.isInteger(value) || value < 1) {
+            throw new Error(`${dimension} of rule ${entry.name || entry.pattern} must be a positive integer, got: ${entry[dimension]}`);
+          }
+          rule[dimension] = value;
+        }
+      }
+      if (entry.formats !== undefined) {
+        rule.formats = this.parseOutputFormats(Array.isArray(entry.formats) ? entry.formats.join(',') : String(entry.formats));
+      }
+      if (entry.mode !== undefined) {
+        rule.mode = this.parseEncodingMode(String(entry.mode));
+      }
+      if (entry.metadata !== undefined) {
+        rule.metadata = this.parseMetadataPolicy(String(entry.metadata));
+      }
+      if (entry.develop !== undefined) {
+        rule.develop = parseDevelopSettings(entry.develop, `rule ${entry.name || entry.pattern}`);
+      }
+      if (entry.watermark !== undefined) {
+        if (typeof entry.watermark !== 'boolean') {
+          throw new Error(`watermark of rule ${entry.name || entry.pattern} must be true or false, got: ${entry.watermark}`);
+        }
+        rule.watermark = entry.watermark;
+      }
+      if (entry.targetBytes !== undefined) {
+        rule.targetBytes = this.parseByteSize(String(entry.targetBytes));
+      }
+      if (entry.targetSsim !== undefined && entry.targetDssim !== undefined) {
+        throw new Error(`targetSsim and targetDssim of rule ${entry.name || entry.pattern} cannot be combined, give the perceptual target once`);
+      }
+      if (entry.targetSsim !== undefined) {
+        rule.targetSsim = this.parseTargetSsim(String(entry.targetSsim));
+      } else if (entry.targetDssim !== undefined) {
+        rule.targetSsim = this.parseTargetDssim(String(entry.targetDssim));
+      }
+      return rule;
+    });
+  }
+
   /**
    * Validate CLI options
    * @param options - CLI options to validate
@@ -311,6 +982,9 @@ export class CLIConsoleReporter {
         console.log(`   Graphic Quality: ${options.graphicQuality || 80}%`);
         console.log(`   Mixed Quality: ${options.mixedQuality || 83}%`);
       }
+      console.log(`   Output Formats: ${(options.formats || ['webp']).join(', ')}`);
+      console.log(`   Encoding Mode: ${options.mode || 'auto'}`);
+      console.log(`   Encoder Profile: ${options.profile || 'auto'}`);
       console.log(`   Concurrency: ${options.concurrency || 4} images`);
       console.log(`   Continue on Error: ${options.continueOnError ? 'Yes' : 'No'}`);
       console.log(`   Progress Reporting: ${!options.noProgress ? 'Enabled' : 'Disabled'}`);
@@ -400,7 +1074,8 @@ export class CLIConsoleReporter {
     
     const skipped = report.totalImages - report.successfulConversions - report.failedConversions;
     if (skipped > 0) {
-      console.log(`   ⏭️  Skipped: ${skipped}`);
+      const alreadyOptimal = report.skipReasons?.already_optimal || 0;
+      console.log(`   ⏭️  Skipped: ${skipped}${alreadyOptimal > 0 ? ` (${alreadyOptimal} already optimal)` : ''}`);
     }
     
     // Size reduction information
@@ -457,6 +1132,17 @@ export class CLIConsoleReporter {
       if (this.verbose && progress.result?.errorMessage) {
         console.log(`\n⚠️  ${progress.currentFile}: ${progress.result.errorMessage}`);
       }
+      // Each format runs its own search, the primary one is also the first variant
+      const searched = this.verbose && progress.result
+        ? (progress.result.variants || [progress.result]).filter((variant: any) => variant.perceptual)
+        : [];
+      searched.forEach((variant: any) => {
+        const { targetSsim, met, quality, trace } = variant.perceptual;
+        console.log(`\n🎯 ${progress.currentFile} (${variant.format.toUpperCase()}): SSIM ${targetSsim} ${met ? 'met' : 'MISSED'} at quality ${quality}`);
+        trace.forEach((step: any) => {
+          console.log(`   quality ${step.quality}: SSIM ${step.score.toFixed(4)}, ${Math.round(step.bytes / 1024 * 100) / 100} KB`);
+        });
+      });
     };
   }
 
@@ -550,6 +1236,10 @@ export class CLIReportGenerator {
         successfulConversions: report.successfulConversions,
         failedConversions: report.failedConversions,
         skippedConversions: report.totalImages - report.successfulConversions - report.failedConversions,
+        skipReasons: report.skipReasons,
+        gamutClippedImages: report.results.filter((result: any) => result.color?.clipped).length,
+        budgetMissedImages: report.results.filter((result: any) => result.budget && !result.budget.met).length,
+        perceptualMissedImages: report.results.filter((result: any) => result.perceptual && !result.perceptual.met).length,
         totalSizeReduction: report.totalSizeReduction,
         totalSizeReductionMB: Math.round(report.totalSizeReduction / (1024 * 1024) * 100) / 100,
         averageCompressionRatio: Math.round(report.averageCompressionRatio * 100) / 100,
@@ -558,6 +1248,8 @@ export class CLIReportGenerator {
           ? Math.round(report.processingTime / report.successfulConversions / 1000 * 100) / 100 
           : 0
       },
+      formats: report.formatTotals,
+      animations: report.animationTotals,
       results: report.results.map((result: any) => ({
         originalPath: result.originalPath,
         optimizedPath: result.optimizedPath,
@@ -567,8 +1259,71 @@ export class CLIReportGenerator {
         optimizedSizeMB: Math.round(result.optimizedSize / (1024 * 1024) * 100) / 100,
         compressionRatio: Math.round(result.compressionRatio * 100) / 100,
         qualityScore: result.qualityScore,
+        format: result.format,
+        encoderQuality: result.encoderQuality,
+        encodingMode: result.encodingMode,
+        encodingProfile: result.encodingProfile,
+        variants: result.variants?.map((variant: any) => ({
+          format: variant.format,
+          optimizedPath: variant.optimizedPath,
+          optimizedSizeBytes: variant.optimizedSize,
+          compressionRatio: Math.round(variant.compressionRatio * 100) / 100,
+          encoderQuality: variant.encoderQuality,
+          encodingMode: variant.encodingMode,
+          encodingProfile: variant.encodingProfile,
+          budget: variant.budget,
+          perceptual: variant.perceptual,
+          similarity: variant.similarity,
+          status: variant.status,
+          errorMessage: variant.errorMessage
+        })),
+        size: result.size,
+        sizeVariants: result.sizeVariants?.map((sizeVariant: any) => ({
+          size: sizeVariant.size,
+          optimizedPath: sizeVariant.optimizedPath,
+          optimizedSizeBytes: sizeVariant.optimizedSize,
+          qualityScore: sizeVariant.qualityScore,
+          dngSource: sizeVariant.dngSource,
+          budget: sizeVariant.budget,
+          perceptual: sizeVariant.perceptual,
+          similarity: sizeVariant.similarity,
+          status: sizeVariant.status,
+          errorMessage: sizeVariant.errorMessage
+        })),
+        rule: result.rule,
+        focalPoint: result.focalPoint,
+        metadata: result.metadata,
+        color: result.color,
+        development: result.development,
+        dngSource: result.dngSource,
+        watermarked: result.watermarked,
+        placeholders: result.placeholders,
+        colors: result.colors,
+        budget: result.budget,
+        perceptual: result.perceptual,
+        similarity: result.similarity,
+        crop: result.crop,
+        cropVariants: result.cropVariants?.map((cropVariant: any) => ({
+          crop: cropVariant.crop,
+          optimizedPath: cropVariant.optimizedPath,
+          optimizedSizeBytes: cropVariant.optimizedSize,
+          qualityScore: cropVariant.qualityScore,
+          dngSource: cropVariant.dngSource,
+          budget: cropVariant.budget,
+          perceptual: cropVariant.perceptual,
+          similarity: cropVariant.similarity,
+          status: cropVariant.status,
+          errorMessage: cropVariant.errorMessage
+        })),
+        animation: result.animation ? {
+          frameCount: result.animation.frameCount,
+          loop: result.animation.loop,
+          delayMs: result.animation.delay,
+          bytesSaved: result.animation.bytesSaved
+        } : undefined,
         processingTimeMs: result.processingTime,
         status: result.status,
+        skipReason: result.skipReason,
         errorMessage: result.errorMessage
       }))
     };
@@ -600,7 +1355,8 @@ export class CLIReportGenerator {
     
     const skipped = report.totalImages - report.successfulConversions - report.failedConversions;
     if (skipped > 0) {
-      lines.push(`Skipped Conversions: ${skipped}`);
+      const alreadyOptimal = report.skipReasons?.already_optimal || 0;
+      lines.push(`Skipped Conversions: ${skipped}${alreadyOptimal > 0 ? ` (${alreadyOptimal} already optimal)` : ''}`);
     }
     
     if (report.totalSizeReduction > 0) {
@@ -608,6 +1364,26 @@ export class CLIReportGenerator {
       lines.push(`Total Size Reduction: ${sizeReductionMB} MB`);
       lines.push(`Average Compression: ${Math.round(report.averageCompressionRatio * 100) / 100}%`);
     }
+
+    if (report.animationTotals && report.animationTotals.animatedImages > 0) {
+      const savedMB = Math.round(report.animationTotals.totalSizeReduction / (1024 * 1024) * 100) / 100;
+      lines.push(`Animated Images: ${report.animationTotals.animatedImages} (${report.animationTotals.totalFrames} frames, ${savedMB} MB saved)`);
+    }
+
+    const gamutClipped = report.results.filter((result: any) => result.color?.clipped).length;
+    if (gamutClipped > 0) {
+      lines.push(`Gamut Clipped: ${gamutClipped} images lost saturated colours`);
+    }
+
+    const budgetMissed = report.results.filter((result: any) => result.budget && !result.budget.met).length;
+    if (budgetMissed > 0) {
+      lines.push(`Byte Budget Missed: ${budgetMissed} images stayed over budget`);
+    }
+
+    const perceptualMissed = report.results.filter((result: any) => result.perceptual && !result.perceptual.met).length;
+    if (perceptualMissed > 0) {
+      lines.push(`Perceptual Target Missed: ${perceptualMissed} images scored below the target`);
+    }
     
     const processingSeconds = Math.round(report.processingTime / 1000 * 100) / 100;
     lines.push(`Processing Time: ${processingSeconds} seconds`);
@@ -636,10 +1412,98 @@ export class CLIReportGenerator {
         lines.push(`   Optimized Size: ${optimizedMB} MB`);
         lines.push(`   Compression: ${compression}%`);
         lines.push(`   Quality: ${result.qualityScore}%`);
+        if (result.similarity) {
+          lines.push(`   SSIM: ${result.similarity.ssim.toFixed(4)} (MS-SSIM ${result.similarity.msSsim.toFixed(4)})`);
+        }
+        if (result.encodingMode) {
+          lines.push(`   Encoding Mode: ${result.encodingMode.replace('_', '-')}`);
+        }
+        if (result.encodingProfile) {
+          lines.push(`   Encoder Profile: ${result.encodingProfile}`);
+        }
+        if (result.rule) {
+          lines.push(`   Rule: ${result.rule}`);
+        }
+        if (result.budget) {
+          const budgetKB = Math.round(result.budget.targetBytes / 1024 * 100) / 100;
+          const downscaled = result.budget.downscaled ? `, downscaled to ${result.budget.downscaled.width}x${result.budget.downscaled.height}` : '';
+          lines.push(`   Byte Budget: ${result.budget.met ? 'met' : 'MISSED'}, ${budgetKB} KB at quality ${result.budget.quality}${downscaled} (${result.budget.attempts} encodes)`);
+        }
+        if (result.perceptual) {
+          lines.push(`   Perceptual Target: ${result.perceptual.met ? 'met' : 'MISSED'}, SSIM ${result.perceptual.targetSsim} at quality ${result.perceptual.quality} (score ${result.perceptual.score.toFixed(4)})`);
+          const steps = result.perceptual.trace.map((step: any) =>
+            `q${step.quality} ${step.score.toFixed(4)}/${Math.round(step.bytes / 1024 * 100) / 100} KB`
+          );
+          lines.push(`   Search: ${steps.join(', ')}`);
+        }
+        if (result.variants && result.variants.length > 1) {
+          lines.push(`   Formats:`);
+          result.variants.forEach((variant: any) => {
+            const variantKB = Math.round(variant.optimizedSize / 1024 * 100) / 100;
+            lines.push(`     ${variant.format.toUpperCase()}: ${variant.status === 'success' ? `${variantKB} KB (encoder quality ${variant.encoderQuality})` : variant.status.toUpperCase()}`);
+          });
+        } else if (result.format) {
+          lines.push(`   Format: ${result.format.toUpperCase()} (encoder quality ${result.encoderQuality})`);
+        }
+        if (result.sizeVariants) {
+          lines.push(`   Sizes:`);
+          [result, ...result.sizeVariants].forEach((sizeResult: any) => {
+            const sizeKB = Math.round(sizeResult.optimizedSize / 1024 * 100) / 100;
+            const dngSource = sizeResult.dngSource ? `, ${sizeResult.dngSource === 'preview' ? 'from preview' : 'developed'}` : '';
+            lines.push(`     ${sizeResult.size.descriptor} (${sizeResult.size.width}x${sizeResult.size.height}): ${sizeResult.status === 'success' ? `${sizeKB} KB${dngSource}` : sizeResult.status.toUpperCase()}`);
+          });
+        }
+        if (result.focalPoint) {
+          lines.push(`   Focal Point: ${result.focalPoint.x}, ${result.focalPoint.y}`);
+        }
+        if (result.color) {
+          const space = result.color.output === 'display_p3' ? 'Display P3' : 'sRGB';
+          const clipping = result.color.clipped ? `, GAMUT CLIPPED in ${result.color.clippedPercent}% of pixels` : '';
+          lines.push(`   Colour: ${result.color.profile} → ${space}${clipping}`);
+        }
+        if (result.colors) {
+          lines.push(`   Palette: dominant ${result.colors.dominant}, average ${result.colors.average}, colours ${result.colors.palette.join(' ')}`);
+        }
+        if (result.placeholders) {
+          lines.push(`   BlurHash: ${result.placeholders.blurhash}`);
+        }
+        if (result.watermarked) {
+          lines.push(`   Watermark: applied`);
+        }
+        if (result.dngSource) {
+          lines.push(`   DNG Source: ${result.dngSource === 'preview' ? 'embedded JPEG preview' : 'developed raw data'}`);
+        }
+        if (result.development) {
+          const { whiteBalance, multipliers, exposure, highlightRecovery, toneCurve } = result.development;
+          const gains = multipliers.map((gain: number) => gain.toFixed(2)).join('/');
+          const curve = typeof toneCurve === 'string' ? toneCurve.replace('_', '-') : 'custom';
+          lines.push(`   Development: ${whiteBalance.replace('_', '-')} WB (${gains}), ${exposure >= 0 ? '+' : ''}${exposure} EV, highlight recovery ${highlightRecovery}, ${curve} curve`);
+        }
+        if (result.metadata) {
+          const removed = result.metadata.removed.length > 0 ? result.metadata.removed.join(', ').toUpperCase() : 'nothing';
+          lines.push(`   Metadata (${result.metadata.policy.replace('_', '-')}): removed ${removed}`);
+        }
+        if (result.cropVariants) {
+          lines.push(`   Crops:`);
+          result.cropVariants.forEach((cropResult: any) => {
+            const cropKB = Math.round(cropResult.optimizedSize / 1024 * 100) / 100;
+            const region = cropResult.crop
+              ? ` ${cropResult.crop.region.width}x${cropResult.crop.region.height} at ${cropResult.crop.region.left},${cropResult.crop.region.top} (${cropResult.crop.strategy.replace('_', ' ')})`
+              : '';
+            const dngSource = cropResult.dngSource ? `, ${cropResult.dngSource === 'preview' ? 'from preview' : 'developed'}` : '';
+            lines.push(`     ${cropResult.crop?.preset || 'crop'}${region}: ${cropResult.status === 'success' ? `${cropKB} KB${dngSource}` : cropResult.status.toUpperCase()}`);
+          });
+        }
+        if (result.animation) {
+          const savedKB = Math.round(result.animation.bytesSaved / 1024 * 100) / 100;
+          lines.push(`   Animation: ${result.animation.frameCount} frames, loop ${result.animation.loop === 0 ? 'forever' : result.animation.loop}, ${savedKB} KB saved`);
+        }
         lines.push(`   Processing Time: ${result.processingTime}ms`);
         lines.push(`   Output: ${result.optimizedPath}`);
       } else if (result.status === 'failed' && result.errorMessage) {
         lines.push(`   Error: ${result.errorMessage}`);
+      } else if (result.status === 'skipped' && result.errorMessage) {
+        lines.push(`   Reason: ${result.errorMessage}`);
       }
       
       lines.push('');
@@ -3,20 +3,82 @@
  */
 
 import * as fs from 'fs-extra';
+import * as os from 'os';
 import * as path from 'path';
 import { EventEmitter } from 'events';
 import { 
   OptimizationResult, 
   ProcessingReport, 
   OptimizationConfig, 
+  OutputFormat,
+  EncodingMode,
+  EncodingProfile,
+  DisplaySizeRule,
+  FocalPoint,
+  PathRule,
+  MetadataPolicy,
+  DngDevelopSettings,
+  DngSource,
+  WatermarkSettings,
+  PerceptualSearchStep,
   DEFAULT_CONFIG,
+  resolveCropPreset,
+  isInputFormat,
   ConfigManager 
 } from '../types';
-import { FileManager } from '../utils';
-import { FormatDetector, WebPConverter } from './index';
+import { FileManager, globSpecificity, matchesGlob } from '../utils';
+import { ConversionOptions, CropOptions, FormatDetector, ResizeOptions, WebPConverter } from './index';
+import { getTargetFormatEncoder } from './format-converter';
+import { developDng, extractDngPreview, readDngRawSize } from './dng-developer';
+import { generatePlaceholders } from './placeholders';
 import { ImageContentAnalyzer, DynamicQualityCalculator, QualityValidator } from './quality-optimizer';
 import { ProgressReporter, ProgressReporterConfig } from './progress-reporter';
 
+// Re-encoded WebP sources are kept only if they save at least this much (percent)
+const REOPTIMIZATION_MIN_SAVINGS = 5;
+
+// SSIM against its source below which a re-encoded WebP counts as having lost quality
+const REOPTIMIZATION_MIN_SSIM = 0.95;
+
+// Downscaling towards a byte budget shrinks the edges by at least 10% and at most half per step
+const BUDGET_MIN_DOWNSCALE_FACTOR = 0.5;
+const BUDGET_MAX_DOWNSCALE_FACTOR = 0.9;
+const BUDGET_MAX_DOWNSCALES = 8;
+
+// Longest edge below which outputs are not downscaled further to meet a byte budget
+const BUDGET_MIN_EDGE = 64;
+
+// Lowest quality a perceptual target search tries
+const PERCEPTUAL_MIN_QUALITY = 1;
+
+/**
+ * Where and at what size one rendering of a source image is written
+ */
+interface RenderTarget {
+  suffix: string;         // Appended to the output name, e.g. '-640w'
+  maxWidth: number;
+  maxHeight: number;
+  pixelSource: string;    // File the pixels are read from, differs from the source for rasterised SVGs and DNG previews
+  crop?: CropOptions;     // Aspect ratio crop applied before resizing
+  rule?: PathRule;        // Path rule overriding formats and encoding mode
+  resize?: ResizeOptions; // Fit mode, kernel and upscaling limit
+}
+
+/**
+ * Embedded JPEG preview of a DNG, written to a temporary file
+ */
+interface DngPreviewFile {
+  path: string;
+  directory: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Content analysis result from DynamicQualityCalculator
+ */
+type QualityAnalysis = Awaited<ReturnType<DynamicQualityCalculator['calculateOptimalQuality']>>;
+
 /**
  * Progress event data for batch processing
  */
@@ -53,6 +115,8 @@ export class BatchProcessor extends EventEmitter {
   private qualityCalculator: DynamicQualityCalculator;
   private qualityValidator: QualityValidator;
   private progressReporter: ProgressReporter;
+  private focalPointMap: Promise<Record<string, FocalPoint>> | null = null;
+  private dngPreviews = new Map<string, Promise<DngPreviewFile | null>>();
 
   constructor(config?: Partial<OptimizationConfig>) {
     super();
@@ -82,7 +146,7 @@ export class BatchProcessor extends EventEmitter {
       await this.validateProcessingOptions(options);
       
       // Scan source directory for images
-      const imageFiles = await this.fileManager.scanDirectory(options.sourceDirectory);
+      const imageFiles = await this.fileManager.scanDirectory(options.sourceDirectory, options.outputDirectory);
       
       if (imageFiles.length === 0) {
         throw new Error(`No supported image files found in ${options.sourceDirectory}`);
@@ -109,6 +173,7 @@ export class BatchProcessor extends EventEmitter {
       const concurrency = this.configManager.getConcurrency();
       await this.processImagesInParallel(
         imageFiles, 
+        options.sourceDirectory,
         options.outputDirectory, 
         concurrency,
         (result, index) => {
@@ -179,9 +244,10 @@ export class BatchProcessor extends EventEmitter {
    * Process a single image through the optimization pipeline
    * @param imagePath - Path to the image file
    * @param outputDirectory - Directory for optimized output
+   * @param sourceDirectory - Source directory that path patterns are relative to (default: the image's directory)
    * @returns Promise resolving to optimization result
    */
-  async processImage(imagePath: string, outputDirectory: string): Promise<OptimizationResult> {
+  async processImage(imagePath: string, outputDirectory: string, sourceDirectory: string = path.dirname(imagePath)): Promise<OptimizationResult> {
     try {
       // Validate image file
       const validation = await this.formatDetector.validateImageFile(imagePath);
@@ -195,38 +261,45 @@ export class BatchProcessor extends EventEmitter {
           qualityScore: 0,
           processingTime: 0,
           status: 'skipped',
-          errorMessage: validation.errorMessage || 'Invalid image file'
+          errorMessage: validation.errorMessage || 'Invalid image file',
+          skipReason: 'unsupported'
         };
       }
 
-      // Analyze image content for optimal quality settings
-      const qualityResult = await this.qualityCalculator.calculateOptimalQuality(imagePath);
-      const optimalQuality = qualityResult.quality;
-
-      // Generate output path
-      const outputPath = this.fileManager.generateWebPOutputPath(imagePath, outputDirectory);
-
-      // Convert to WebP with dimension constraints for web optimization
-      const config = this.configManager.getConfig();
-      const result = await this.webpConverter.convertToWebP(
-        imagePath, 
-        outputPath, 
-        optimalQuality, 
-        config.dimensions.maxWidth, 
-        config.dimensions.maxHeight
-      );
+      // A declared focal point steers every crop and is passed on to the manifest
+      const relativePath = this.fileManager.getRelativeImagePath(imagePath, sourceDirectory);
+      const focalPoint = await this.resolveFocalPoint(imagePath, relativePath);
 
-      // Validate output quality if conversion was successful
-      if (result.status === 'success') {
-        const qualityValidation = await this.qualityValidator.validateOutputQuality(imagePath, outputPath, optimalQuality);
-        if (!qualityValidation.isValid) {
-          // If quality validation fails, mark as failed but keep the file
-          result.status = 'failed';
-          result.errorMessage = `Quality validation failed: ${qualityValidation.issues.join(', ')}`;
-        }
+      // A matching path rule overrides quality, dimensions, formats and mode for this image
+      const rule = this.resolvePathRule(relativePath);
+
+      // SVG sources are rasterised at the configured sizes before optimisation
+      if (validation.format === 'svg') {
+        const svgResult = await this.processSvg(imagePath, outputDirectory, rule);
+        return this.withSourceSettings(await this.withPlaceholders(svgResult, imagePath), focalPoint, rule);
       }
 
-      return result;
+      // A declared CSS display size writes @1x/@2x/@3x density variants
+      const displaySize = this.configManager.getConfig().density.displaySizes
+        .find(rule => matchesGlob(relativePath, rule.pattern));
+      const { widths } = this.configManager.getConfig().dimensions;
+      let result: OptimizationResult;
+      if (displaySize) {
+        result = await this.processDensityVariants(imagePath, validation.format!, outputDirectory, displaySize, focalPoint, rule);
+      } else if (widths && widths.length > 0) {
+        // Responsive widths write one file per srcset width
+        result = await this.processResponsiveWidths(imagePath, validation.format!, outputDirectory, widths, rule);
+      } else {
+        result = await this.optimizeImage(imagePath, validation.format!, outputDirectory, this.getDefaultTarget(imagePath, rule, focalPoint));
+      }
+
+      // Crop presets write art-directed outputs next to the uncropped ones
+      const { presets } = this.configManager.getConfig().crop;
+      if (presets.length > 0) {
+        result = this.combineCropResults(result, await this.processCropPresets(imagePath, validation.format!, outputDirectory, presets, focalPoint, rule));
+      }
+
+      return this.withSourceSettings(await this.withPlaceholders(result, imagePath), focalPoint, rule);
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown processing error';
@@ -241,9 +314,993 @@ export class BatchProcessor extends EventEmitter {
         status: 'failed',
         errorMessage
       };
+    } finally {
+      await this.releaseDngPreview(imagePath);
+    }
+  }
+
+  /**
+   * Look up the focal point of an image, from its sidecar or else the central focal point file
+   * @param imagePath - Path to the image file
+   * @param relativePath - Path relative to the source directory
+   * @returns Focal point, or undefined if none is declared
+   */
+  private async resolveFocalPoint(imagePath: string, relativePath: string): Promise<FocalPoint | undefined> {
+    const { mapFile, sidecarSuffix } = this.configManager.getConfig().focalPoints;
+
+    const sidecar = await this.fileManager.readFocalPointSidecar(imagePath, sidecarSuffix);
+    if (sidecar) {
+      return sidecar;
+    }
+    if (!mapFile) {
+      return undefined;
+    }
+
+    // The central file is read once and shared by concurrently processed images
+    if (!this.focalPointMap) {
+      this.focalPointMap = this.fileManager.loadFocalPointMap(mapFile);
+    }
+    const focalPoints = await this.focalPointMap;
+
+    // An exact path wins, otherwise the first matching pattern in file order
+    if (focalPoints[relativePath]) {
+      return focalPoints[relativePath];
+    }
+    const pattern = Object.keys(focalPoints).find(key => matchesGlob(relativePath, key));
+    return pattern ? focalPoints[pattern] : undefined;
+  }
+
+  /**
+   * Add loading placeholders to a successful result
+   * @param result - Result of all renderings of the image
+   * @param imagePath - Path to the source image, used when no output can be decoded
+   * @returns Result with placeholders, unchanged if they are disabled or cannot be computed
+   */
+  private async withPlaceholders(result: OptimizationResult, imagePath: string): Promise<OptimizationResult> {
+    if (!this.configManager.getConfig().placeholders.enabled || result.status !== 'success') {
+      return result;
+    }
+
+    // The primary output shows crops, development and watermarks; fall back along the format chain to one Sharp decodes
+    const decodable = (result.variants || []).find(variant => variant.status === 'success' && isInputFormat(variant.format));
+    try {
+      return { ...result, placeholders: await generatePlaceholders(decodable ? decodable.optimizedPath : imagePath) };
+    } catch {
+      // Placeholders are a nicety, the image itself was written
+      return result;
+    }
+  }
+
+  /**
+   * Resolve the development settings of a DNG source
+   * @param imagePath - Path to the DNG file
+   * @param rule - Path rule that applies to the image
+   * @returns Global settings overridden by the rule, then by the image's sidecar
+   */
+  private async resolveDevelopSettings(imagePath: string, rule?: PathRule): Promise<DngDevelopSettings> {
+    const { whiteBalance, exposure, highlightRecovery, toneCurve, sidecarSuffix } = this.configManager.getConfig().dng;
+    const sidecar = await this.fileManager.readDevelopSidecar(imagePath, sidecarSuffix);
+    return { whiteBalance, exposure, highlightRecovery, toneCurve, ...rule?.develop, ...sidecar };
+  }
+
+  /**
+   * Resolve the watermark of an image
+   * @param rule - Path rule that applies to the image
+   * @returns Watermark settings, or undefined if the image is not marked
+   */
+  private resolveWatermark(rule?: PathRule): WatermarkSettings | undefined {
+    const { enabled, ...settings } = this.configManager.getConfig().watermark;
+    return (rule?.watermark ?? enabled) && (settings.image || settings.text) ? settings : undefined;
+  }
+
+  /**
+   * Pick the embedded preview of a DNG for a rendering, if it has enough pixels for the output
+   * @param imagePath - Path to the DNG file
+   * @param target - Size constraints, crop and fit mode of the rendering
+   * @returns Path of the preview file, or null if the raw data has to be developed
+   */
+  private async selectDngPreview(imagePath: string, target: RenderTarget): Promise<string | null> {
+    if (!this.configManager.getConfig().dng.usePreview) {
+      return null;
+    }
+
+    // The preview is extracted once and shared by every rendering of the image
+    if (!this.dngPreviews.has(imagePath)) {
+      this.dngPreviews.set(imagePath, this.writeDngPreview(imagePath));
+    }
+    const preview = await this.dngPreviews.get(imagePath);
+    if (!preview) {
+      return null;
+    }
+
+    // Previews share the aspect ratio of the raw image, so comparing long edges tells whether the output would upscale it;
+    // development reads the same raw image, so an output the preview cannot cover is rendered at full resolution
+    const rawSize = await readDngRawSize(imagePath);
+    const { width, height } = rawSize || (await this.webpConverter.getImageMetadata(imagePath)).dimensions;
+    const { scale } = await this.webpConverter.getRenderSize(imagePath, target.maxWidth, target.maxHeight, {
+      crop: target.crop,
+      resize: target.resize
+    });
+    const requiredEdge = Math.round(Math.max(width, height) * scale);
+    return Math.max(preview.width, preview.height) >= requiredEdge ? preview.path : null;
+  }
+
+  /**
+   * Extract the largest embedded preview of a DNG to a temporary file
+   * @param imagePath - Path to the DNG file
+   * @returns Preview file, or null if the DNG has no readable preview
+   */
+  private async writeDngPreview(imagePath: string): Promise<DngPreviewFile | null> {
+    try {
+      const preview = await extractDngPreview(imagePath);
+      if (!preview) {
+        return null;
+      }
+
+      const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'dng-preview-'));
+      const previewPath = path.join(directory, preview.data[0] === 0xff ? 'preview.jpg' : 'preview.png');
+      await fs.writeFile(previewPath, preview.data);
+      return { path: previewPath, directory, width: preview.width, height: preview.height };
+    } catch {
+      // A malformed preview is no reason to fail the image, development still works
+      return null;
+    }
+  }
+
+  /**
+   * Remove the extracted preview of a DNG once all its renderings are written
+   * @param imagePath - Path to the source image
+   */
+  private async releaseDngPreview(imagePath: string): Promise<void> {
+    const preview = this.dngPreviews.get(imagePath);
+    if (!preview) {
+      return;
+    }
+    this.dngPreviews.delete(imagePath);
+    const file = await preview;
+    if (file) {
+      await fs.remove(file.directory);
+    }
+  }
+
+  /**
+   * Find the path rule that applies to an image
+   * @param relativePath - Path relative to the source directory
+   * @returns First matching rule, or the most specific one when configured, undefined if none match
+   */
+  private resolvePathRule(relativePath: string): PathRule | undefined {
+    const { entries, match } = this.configManager.getConfig().rules;
+    const matching = entries.filter(rule => matchesGlob(relativePath, rule.pattern));
+    if (match === 'first' || matching.length <= 1) {
+      return matching[0];
+    }
+
+    // Equally specific rules keep their config order
+    return matching.reduce((best, rule) => globSpecificity(rule.pattern) > globSpecificity(best.pattern) ? rule : best);
+  }
+
+  /**
+   * Record the focal point and path rule a source was processed with on its result
+   * @param result - Optimization result
+   * @param focalPoint - Declared focal point, if any
+   * @param rule - Path rule that applied, if any
+   * @returns Result carrying the focal point and rule name
+   */
+  private withSourceSettings(result: OptimizationResult, focalPoint?: FocalPoint, rule?: PathRule): OptimizationResult {
+    return {
+      ...result,
+      ...(focalPoint ? { focalPoint } : {}),
+      ...(rule ? { rule: rule.name || rule.pattern } : {})
+    };
+  }
+
+  /**
+   * Run content analysis with the configured or rule's compression strategy
+   * @param pixelSource - File the pixels are read from
+   * @param rule - Path rule that applies, if any
+   * @returns Quality analysis, with the rule's fixed quality in place of the content-based one
+   */
+  private async analyzeQuality(pixelSource: string, rule?: PathRule): Promise<QualityAnalysis> {
+    const { strategy } = this.configManager.getConfig().encoding;
+    const targetStrategy = rule?.strategy || (strategy === 'auto' ? undefined : strategy);
+    const analysis = await this.qualityCalculator.calculateOptimalQuality(pixelSource, targetStrategy);
+
+    // Mode and profile still follow the content when a rule fixes the quality
+    return rule?.quality !== undefined ? { ...analysis, quality: rule.quality } : analysis;
+  }
+
+  /**
+   * Build the render target for a plain single-size conversion
+   * @param imagePath - Path to the image file
+   * @param rule - Path rule that applies, if any
+   * @param focalPoint - Declared focal point, centres the crop of the 'cover' fit mode
+   * @returns Render target using the rule's or configured dimension constraints and fit mode
+   */
+  private getDefaultTarget(imagePath: string, rule?: PathRule, focalPoint?: FocalPoint): RenderTarget {
+    const config = this.configManager.getConfig();
+    const { maxWidth, maxHeight, preserveAspectRatio, fit, background, kernel, maxUpscale } = config.dimensions;
+    const target: RenderTarget = {
+      suffix: '',
+      maxWidth: rule?.maxWidth || maxWidth,
+      maxHeight: rule?.maxHeight || maxHeight,
+      pixelSource: imagePath,
+      rule,
+      // Without aspect ratio preservation the image is stretched to the box
+      resize: { fit: preserveAspectRatio ? fit : 'fill', background, kernel, maxUpscale }
+    };
+
+    // Covering the box is a crop to its aspect ratio, so it goes through the smart crop
+    if (target.resize!.fit === 'cover') {
+      target.crop = {
+        preset: 'cover',
+        aspectRatio: `${target.maxWidth}:${target.maxHeight}`,
+        strategy: config.crop.strategy,
+        focalPoint
+      };
+    }
+
+    return target;
+  }
+
+  /**
+   * Run a decoded source through quality analysis and every configured output format
+   * @param imagePath - Path to the source image, used for output naming and reporting
+   * @param sourceFormat - Detected format of the pixel source
+   * @param outputDirectory - Directory for optimized output
+   * @param target - Output suffix, size constraints and pixel source of this rendering
+   * @param qualityResult - Quality analysis to reuse across renderings of the same pixels
+   * @returns Promise resolving to optimization result with one variant per output format
+   */
+  private async optimizeImage(
+    imagePath: string,
+    sourceFormat: string,
+    outputDirectory: string,
+    target: RenderTarget,
+    qualityResult?: QualityAnalysis
+  ): Promise<OptimizationResult> {
+    // DNG sources render from their embedded preview when it is large enough, development is the fallback
+    let dngSource: DngSource | undefined;
+    if (sourceFormat === 'dng') {
+      const previewPath = await this.selectDngPreview(imagePath, target);
+      dngSource = previewPath ? 'preview' : 'developed';
+      if (previewPath) {
+        target = { ...target, pixelSource: previewPath };
+        sourceFormat = 'jpeg';
+      }
+    }
+
+    // Analyze image content for optimal quality settings
+    const analysis = qualityResult || await this.analyzeQuality(target.pixelSource, target.rule);
+    const optimalQuality = analysis.quality;
+
+    // Forced encoding mode and profile win over the content-based recommendation
+    const { profile: configuredProfile } = this.configManager.getConfig().encoding;
+    const configuredMode = target.rule?.mode || this.configManager.getConfig().encoding.mode;
+    const encodingMode = configuredMode === 'auto' ? analysis.encodingMode : configuredMode;
+    const encodingProfile = configuredProfile === 'auto' ? analysis.encodingProfile : configuredProfile;
+
+    // Encode every configured output format, in fallback chain order
+    const outputFormats = target.rule?.formats && target.rule.formats.length > 0
+      ? target.rule.formats
+      : this.configManager.getOutputFormats();
+    const formatResults: OptimizationResult[] = [];
+    for (const outputFormat of outputFormats) {
+      const formatResult = await this.encodeFormat(imagePath, sourceFormat, outputDirectory, outputFormat, optimalQuality, encodingMode, encodingProfile, target);
+      formatResults.push(dngSource ? await this.withDngSource(formatResult, imagePath, dngSource) : formatResult);
+    }
+
+    // The first format in the chain is the primary result
+    const result: OptimizationResult = {
+      ...formatResults[0],
+      processingTime: formatResults.reduce((sum, r) => sum + r.processingTime, 0),
+      colors: analysis.colors,
+      variants: formatResults.map(r => ({
+        format: r.format!,
+        optimizedPath: r.optimizedPath,
+        optimizedSize: r.optimizedSize,
+        compressionRatio: r.compressionRatio,
+        encoderQuality: r.encoderQuality,
+        encodingMode: r.encodingMode,
+        encodingProfile: r.encodingProfile,
+        status: r.status,
+        errorMessage: r.errorMessage,
+        skipReason: r.skipReason,
+        budget: r.budget,
+        perceptual: r.perceptual,
+        similarity: r.similarity
+      }))
+    };
+
+    // A failed fallback leaves the <picture> element incomplete, so fail the image
+    const failedFormats = formatResults.filter(r => r.status === 'failed');
+    if (failedFormats.length > 0 && formatResults.length > 1) {
+      result.status = 'failed';
+      result.errorMessage = failedFormats
+        .map(r => `${r.format}: ${r.errorMessage || 'Conversion failed'}`)
+        .join('; ');
+    }
+
+    return result;
+  }
+
+  /**
+   * Record how a DNG output was rendered, measuring savings against the DNG rather than its extracted preview
+   * @param result - Conversion result of one output format
+   * @param imagePath - Path to the DNG file
+   * @param dngSource - Whether the preview or the developed raw data was rendered
+   * @returns Result with the DNG source recorded
+   */
+  private async withDngSource(result: OptimizationResult, imagePath: string, dngSource: DngSource): Promise<OptimizationResult> {
+    if (dngSource === 'developed' || result.originalSize === 0) {
+      return { ...result, dngSource };
+    }
+
+    const { size: originalSize } = await fs.stat(imagePath);
+    return {
+      ...result,
+      originalPath: imagePath,
+      originalSize,
+      compressionRatio: ((originalSize - result.optimizedSize) / originalSize) * 100,
+      dngSource
+    };
+  }
+
+  /**
+   * Write an image at each responsive width, never upscaling past the source width or exceeding the height cap
+   * @param imagePath - Path to the image file
+   * @param sourceFormat - Detected format of the source image
+   * @param outputDirectory - Directory for optimized output
+   * @param widths - Requested srcset widths
+   * @param rule - Path rule that applies, if any
+   * @returns Promise resolving to the first width's result, further widths as size variants
+   */
+  private async processResponsiveWidths(
+    imagePath: string,
+    sourceFormat: string,
+    outputDirectory: string,
+    widths: number[],
+    rule?: PathRule
+  ): Promise<OptimizationResult> {
+    const { maxHeight, kernel } = this.configManager.getConfig().dimensions;
+    const heightCap = rule?.maxHeight || maxHeight;
+    const resize = { kernel };
+
+    // Sizes come from the oriented source under the height cap, so widths it caps or that would upscale collapse together
+    const sizes = new Map<number, { width: number; height: number }>();
+    for (const width of [...widths].sort((a, b) => a - b)) {
+      const size = await this.webpConverter.getRenderSize(imagePath, width, heightCap, { resize });
+      if (!sizes.has(size.width)) {
+        sizes.set(size.width, size);
+      }
+    }
+
+    // Every width shares the same pixels, so the content analysis runs once
+    const qualityResult = await this.analyzeQuality(imagePath, rule);
+
+    const results: OptimizationResult[] = [];
+    for (const { width, height } of sizes.values()) {
+      const target: RenderTarget = {
+        suffix: `-${width}w`,
+        maxWidth: width,
+        maxHeight: heightCap,
+        pixelSource: imagePath,
+        rule,
+        resize
+      };
+      const result = await this.optimizeImage(imagePath, sourceFormat, outputDirectory, target, qualityResult);
+      results.push({ ...result, size: { width, height, descriptor: `${width}w` } });
+    }
+
+    return this.combineSizeResults(results);
+  }
+
+  /**
+   * Write an image at each configured pixel density of its CSS display size, skipping densities that would upscale
+   * @param imagePath - Path to the image file
+   * @param sourceFormat - Detected format of the source image
+   * @param outputDirectory - Directory for optimized output
+   * @param displaySize - CSS display size declared for the image's path
+   * @param focalPoint - Declared focal point, centres the crop to a declared width and height
+   * @param rule - Path rule that applies, if any
+   * @returns Promise resolving to the lowest density's result, further densities as size variants
+   */
+  private async processDensityVariants(
+    imagePath: string,
+    sourceFormat: string,
+    outputDirectory: string,
+    displaySize: DisplaySizeRule,
+    focalPoint?: FocalPoint,
+    rule?: PathRule
+  ): Promise<OptimizationResult> {
+    const { densities, qualityStep } = this.configManager.getConfig().density;
+    const minimumQuality = this.configManager.getConfig().quality.minimum;
+    const metadata = await this.webpConverter.getImageMetadata(imagePath);
+    const { width: sourceWidth, height: sourceHeight } = metadata.dimensions;
+
+    // Every density shares the same pixels, so the content analysis runs once
+    const qualityResult = await this.analyzeQuality(imagePath, rule);
+
+    // A declared width and height is a box the image fills, so crop to its aspect ratio
+    const crop: CropOptions | undefined = displaySize.height
+      ? {
+          preset: 'display-size',
+          aspectRatio: `${displaySize.width}:${displaySize.height}`,
+          strategy: this.configManager.getConfig().crop.strategy,
+          focalPoint
+        }
+      : undefined;
+
+    const results: OptimizationResult[] = [];
+    for (const density of [...densities].sort((a, b) => a - b)) {
+      const width = Math.round(displaySize.width * density);
+      const height = displaySize.height
+        ? Math.round(displaySize.height * density)
+        : Math.round(sourceHeight * width / sourceWidth);
+      const size = { width, height, descriptor: `${density}x` };
+
+      if (width > sourceWidth || height > sourceHeight) {
+        results.push({
+          originalPath: imagePath,
+          optimizedPath: '',
+          originalSize: metadata.fileSize,
+          optimizedSize: 0,
+          compressionRatio: 0,
+          qualityScore: 0,
+          processingTime: 0,
+          status: 'skipped',
+          errorMessage: `${density}x needs ${width}x${height}, source is only ${sourceWidth}x${sourceHeight}`,
+          skipReason: 'would_upscale',
+          size
+        });
+        continue;
+      }
+
+      // High-density pixels are displayed smaller, so compression artifacts are less visible
+      const quality = Math.max(minimumQuality, Math.round(qualityResult.quality - qualityStep * (density - 1)));
+      const target: RenderTarget = {
+        suffix: `@${density}x`,
+        maxWidth: width,
+        maxHeight: height,
+        pixelSource: imagePath,
+        crop,
+        rule,
+        resize: { kernel: this.configManager.getConfig().dimensions.kernel }
+      };
+      const result = await this.optimizeImage(imagePath, sourceFormat, outputDirectory, target, { ...qualityResult, quality });
+      results.push({ ...result, size });
+    }
+
+    return this.combineSizeResults(results);
+  }
+
+  /**
+   * Write one cropped output per crop preset
+   * @param imagePath - Path to the image file
+   * @param sourceFormat - Detected format of the source image
+   * @param outputDirectory - Directory for optimized output
+   * @param presets - Crop preset names or 'W:H' ratios
+   * @param focalPoint - Declared focal point, overrides the crop strategy
+   * @param rule - Path rule that applies, if any
+   * @returns Promise resolving to one result per preset
+   */
+  private async processCropPresets(
+    imagePath: string,
+    sourceFormat: string,
+    outputDirectory: string,
+    presets: string[],
+    focalPoint?: FocalPoint,
+    rule?: PathRule
+  ): Promise<OptimizationResult[]> {
+    const { strategy } = this.configManager.getConfig().crop;
+
+    // Crops are analysed as the whole image, the region only narrows what is encoded
+    const qualityResult = await this.analyzeQuality(imagePath, rule);
+
+    const results: OptimizationResult[] = [];
+    for (const preset of presets) {
+      const resolved = resolveCropPreset(preset);
+      if (!resolved) {
+        throw new Error(`Unknown crop preset: ${preset}`);
+      }
+
+      const target: RenderTarget = {
+        ...this.getDefaultTarget(imagePath, rule, focalPoint),
+        suffix: `-${resolved.preset.replace(':', 'x')}`,
+        crop: { ...resolved, strategy, focalPoint }
+      };
+      results.push(await this.optimizeImage(imagePath, sourceFormat, outputDirectory, target, qualityResult));
+    }
+
+    return results;
+  }
+
+  /**
+   * Attach the cropped outputs of a source to its uncropped result
+   * @param result - Result of the uncropped rendering
+   * @param cropResults - One result per crop preset
+   * @returns Result with the crops as crop variants
+   */
+  private combineCropResults(result: OptimizationResult, cropResults: OptimizationResult[]): OptimizationResult {
+    const combined: OptimizationResult = {
+      ...result,
+      processingTime: result.processingTime + cropResults.reduce((sum, r) => sum + r.processingTime, 0),
+      cropVariants: cropResults
+    };
+
+    // Templates reference every preset, so a missing crop fails the image
+    const failedCrops = cropResults.filter(r => r.status === 'failed');
+    if (failedCrops.length > 0) {
+      combined.status = 'failed';
+      combined.errorMessage = [
+        ...(result.status === 'failed' && result.errorMessage ? [result.errorMessage] : []),
+        ...failedCrops.map(r => `${r.crop?.preset || 'crop'}: ${r.errorMessage || 'Conversion failed'}`)
+      ].join('; ');
+    }
+
+    return combined;
+  }
+
+  /**
+   * Rasterise an SVG at each configured width or density and optimise every raster
+   * @param imagePath - Path to the SVG source
+   * @param outputDirectory - Directory for optimized output
+   * @param rule - Path rule that applies, if any
+   * @returns Promise resolving to the first size's result, further sizes as size variants
+   */
+  private async processSvg(imagePath: string, outputDirectory: string, rule?: PathRule): Promise<OptimizationResult> {
+    const { widths, densities, background } = this.configManager.getConfig().svg;
+
+    // Fixed widths win over densities; a lone 1x rendering keeps the plain output name
+    const sizes = widths.length > 0
+      ? widths.map(width => ({ width, descriptor: `${width}w`, suffix: `-${width}w` }))
+      : densities.map(density => ({
+          density,
+          descriptor: `${density}x`,
+          suffix: densities.length === 1 && density === 1 ? '' : `@${density}x`
+        }));
+
+    const rasterDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'svg-raster-'));
+    try {
+      const results: OptimizationResult[] = [];
+      for (const size of sizes) {
+        const rasterPath = path.join(rasterDirectory, `${size.descriptor}.png`);
+        const dimensions = await this.webpConverter.rasterizeSvg(imagePath, rasterPath, { ...size, background });
+
+        // Sizes compare against the lossless rendering, the SVG itself has no pixel size to compare with.
+        // The raster is already at its requested size, so the dimension constraints don't apply to it
+        const target: RenderTarget = {
+          suffix: size.suffix,
+          maxWidth: dimensions.width,
+          maxHeight: dimensions.height,
+          pixelSource: rasterPath,
+          rule
+        };
+        const result = await this.optimizeImage(imagePath, 'png', outputDirectory, target);
+        results.push({
+          ...result,
+          originalPath: imagePath,
+          size: { ...dimensions, descriptor: size.descriptor }
+        });
+      }
+
+      return this.combineSizeResults(results);
+    } finally {
+      await fs.remove(rasterDirectory);
     }
   }
 
+  /**
+   * Group the results of several sizes of one source under a single result
+   * @param results - One result per size, in output order
+   * @returns First size's result with the others as size variants
+   */
+  private combineSizeResults(results: OptimizationResult[]): OptimizationResult {
+    const result: OptimizationResult = {
+      ...results[0],
+      processingTime: results.reduce((sum, r) => sum + r.processingTime, 0),
+      ...(results.length > 1 ? { sizeVariants: results.slice(1) } : {})
+    };
+
+    // A missing size breaks the srcset, so fail the image
+    const failedSizes = results.filter(r => r.status === 'failed');
+    if (failedSizes.length > 0 && results.length > 1) {
+      result.status = 'failed';
+      result.errorMessage = failedSizes
+        .map(r => `${r.size!.descriptor}: ${r.errorMessage || 'Conversion failed'}`)
+        .join('; ');
+    }
+
+    return result;
+  }
+
+  /**
+   * Encode a single output format for an image and validate the result
+   * @param imagePath - Path to the image file
+   * @param sourceFormat - Detected format of the source image
+   * @param outputDirectory - Directory for optimized output
+   * @param outputFormat - Target output format
+   * @param quality - Content-aware quality setting
+   * @param encodingMode - Requested compression mode
+   * @param encodingProfile - Encoder tuning profile
+   * @param target - Output suffix, size constraints and pixel source of this rendering
+   * @returns Promise resolving to optimization result for this format
+   */
+  private async encodeFormat(
+    imagePath: string,
+    sourceFormat: string,
+    outputDirectory: string,
+    outputFormat: OutputFormat,
+    quality: number,
+    encodingMode: EncodingMode,
+    encodingProfile: EncodingProfile,
+    target: RenderTarget
+  ): Promise<OptimizationResult> {
+    const config = this.configManager.getConfig();
+    const encoder = getTargetFormatEncoder(outputFormat);
+    const outputPath = this.fileManager.generateOutputPath(imagePath, outputDirectory, encoder.extension, target.suffix);
+    const pixelSource = target.pixelSource;
+    const metadataPolicy = target.rule?.metadata || config.metadata.policy;
+    const watermark = this.resolveWatermark(target.rule);
+    const targetBytes = target.rule?.targetBytes ?? config.budget.maxBytes;
+    const targetSsim = target.rule?.targetSsim ?? config.perceptual.targetSsim;
+    const options: ConversionOptions = {
+      // Perceptual targets search lossy quality, a lossless encode always matches its source
+      losslessJpegRecompression: config.output.jxlLosslessJpeg && !targetSsim,
+      encodingMode: targetSsim ? 'lossy' : encodingMode,
+      encodingProfile,
+      crop: target.crop,
+      resize: target.resize,
+      metadata: metadataPolicy,
+      color: config.color,
+      develop: sourceFormat === 'dng' ? await this.resolveDevelopSettings(imagePath, target.rule) : undefined,
+      watermark
+    };
+
+    // Convert with dimension constraints for web optimization, searching quality for a perceptual target.
+    // Searched outputs are still validated against the content-based quality, which a search may deliberately go below
+    let result: OptimizationResult | undefined;
+    let searchQuality = quality;
+    if (targetSsim) {
+      result = await this.encodeToPerceptualTarget(pixelSource, outputPath, outputFormat, quality, target, options, watermark, targetSsim);
+      searchQuality = result.perceptual!.quality;
+    }
+
+    // A byte budget caps the quality, a perceptual target it has to go below counts as missed
+    if (targetBytes && (!result || result.status === 'success')) {
+      const perceptual = result?.perceptual;
+      result = await this.encodeWithinBudget(pixelSource, outputPath, outputFormat, searchQuality, target, options, targetBytes);
+      if (perceptual) {
+        const capped = result.budget!.quality < searchQuality || !!result.budget!.downscaled;
+        result.perceptual = capped ? { ...perceptual, met: false } : perceptual;
+      }
+    }
+
+    if (!result) {
+      result = await this.webpConverter.convertToFormat(pixelSource, outputPath, outputFormat, quality, target.maxWidth, target.maxHeight, options);
+    }
+
+    // Existing WebP files are only replaced when re-encoding pays off without losing quality. Only a plain re-encode at the
+    // source's size can fall back to the source; crops, marks, other sizes and searched outputs always keep the re-encode
+    if (result.status === 'success' && sourceFormat === 'webp' && outputFormat === 'webp' && !target.suffix &&
+        !result.crop && !result.watermarked && !result.perceptual && !result.budget &&
+        await this.hasSameDimensions(pixelSource, result.optimizedPath)) {
+      return this.keepReoptimizedWebP(pixelSource, result, metadataPolicy);
+    }
+
+    // Validate output quality if conversion was successful
+    if (result.status === 'success') {
+      const reference = await this.createQualityReference(pixelSource, result, target.resize, watermark);
+      try {
+        // A searched output is judged at the quality it was encoded at, and by the target it met. Once a budget
+        // took more than one encode, it forced the output down and the quality thresholds no longer apply
+        const { perceptual, budget } = result;
+        const qualityValidation = await this.qualityValidator.validateOutputQuality(
+          reference.path,
+          outputPath,
+          budget ? budget.quality : perceptual ? perceptual.quality : quality,
+          perceptual?.met ? perceptual.targetSsim : undefined,
+          !budget || budget.attempts === 1
+        );
+        // A failed measurement is reported as a validation issue, without a similarity
+        if (!Number.isNaN(qualityValidation.metrics.structuralSimilarity)) {
+          result.similarity = {
+            ssim: qualityValidation.metrics.structuralSimilarity,
+            msSsim: qualityValidation.metrics.msSsim
+          };
+        }
+        if (!qualityValidation.isValid) {
+          // If quality validation fails, mark as failed but keep the file
+          result.status = 'failed';
+          result.errorMessage = `Quality validation failed: ${qualityValidation.issues.join(', ')}`;
+        }
+      } finally {
+        if (reference.directory) {
+          await fs.remove(reference.directory);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Write the reference an output is compared with, rendered with the output's geometry so SSIM compares aligned pixels.
+   * A crop is compared with the same region of the source, a padded output with a padded source and a marked output
+   * with a marked source; other fit modes only scale, which the validator does itself. A developed DNG is compared
+   * with its development rather than the undeveloped data Sharp decodes from the file
+   * @param pixelSource - File the pixels are read from
+   * @param result - Successful conversion result of the output
+   * @param resize - Fit mode, padding and kernel of the rendering
+   * @param watermark - Watermark composited onto the output, if any
+   * @returns Path of the reference, and the temporary directory holding it unless the pixel source is the reference
+   */
+  private async createQualityReference(
+    pixelSource: string,
+    result: OptimizationResult,
+    resize?: ResizeOptions,
+    watermark?: WatermarkSettings
+  ): Promise<{ path: string; directory: string | null }> {
+    if (!result.development && !result.crop && !result.watermarked && resize?.fit !== 'contain') {
+      return { path: pixelSource, directory: null };
+    }
+
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'quality-reference-'));
+    try {
+      let source = pixelSource;
+      if (result.development) {
+        source = path.join(directory, 'developed.png');
+        await (await developDng(pixelSource, result.development)).image.png().toFile(source);
+        if (!result.crop && !result.watermarked && resize?.fit !== 'contain') {
+          return { path: source, directory };
+        }
+      }
+
+      const reference = path.join(directory, 'reference.png');
+      const { width, height } = (await this.webpConverter.getImageMetadata(result.optimizedPath)).dimensions;
+      await this.webpConverter.renderReference(source, reference, width, height, {
+        region: result.crop?.region,
+        resize,
+        watermark: result.watermarked ? watermark : undefined
+      });
+      return { path: reference, directory };
+    } catch (error) {
+      await fs.remove(directory);
+      throw error;
+    }
+  }
+
+  /**
+   * Encode an output at the lowest quality whose SSIM against the reference meets a target. The search is a
+   * bisection over the whole quality range, probing the content-based value first as it is usually close
+   * @param pixelSource - File the pixels are read from
+   * @param outputPath - Output path, the chosen encode is the last one written there
+   * @param outputFormat - Target format
+   * @param quality - Content-aware quality probed first
+   * @param target - Size constraints of the rendering
+   * @param options - Conversion options of the rendering
+   * @param watermark - Watermark composited onto the output, if any
+   * @param targetSsim - SSIM the output has to reach
+   * @returns Conversion result of the chosen encode, with the search trace
+   */
+  private async encodeToPerceptualTarget(
+    pixelSource: string,
+    outputPath: string,
+    outputFormat: OutputFormat,
+    quality: number,
+    target: RenderTarget,
+    options: ConversionOptions,
+    watermark: WatermarkSettings | undefined,
+    targetSsim: number
+  ): Promise<OptimizationResult> {
+    const trace: PerceptualSearchStep[] = [];
+    const encode = (encodeQuality: number): Promise<OptimizationResult> =>
+      this.webpConverter.convertToFormat(pixelSource, outputPath, outputFormat, encodeQuality, target.maxWidth, target.maxHeight, options);
+    const finish = (result: OptimizationResult, finalQuality: number): OptimizationResult => {
+      const step = trace.find(tried => tried.quality === finalQuality);
+      return {
+        ...result,
+        perceptual: { targetSsim, met: !!step && step.score >= targetSsim, quality: finalQuality, score: step?.score ?? 0, trace }
+      };
+    };
+
+    let result = await encode(quality);
+    if (result.status !== 'success') {
+      return finish(result, quality);
+    }
+
+    // The crop region is only known once the first encode has chosen it
+    const reference = await this.createQualityReference(pixelSource, result, target.resize, watermark);
+    try {
+      let best: number | null = null;
+      let low = PERCEPTUAL_MIN_QUALITY;
+      let high = 100;
+      let probe = quality;
+      let lastQuality = quality;
+      for (;;) {
+        const { ssim: score } = await this.qualityValidator.measureStructuralSimilarity(reference.path, outputPath);
+        trace.push({ quality: probe, score, bytes: result.optimizedSize });
+        if (score >= targetSsim) {
+          best = probe;
+          high = probe - 1;
+        } else {
+          low = probe + 1;
+        }
+        if (low > high) {
+          break;
+        }
+
+        probe = Math.floor((low + high) / 2);
+        result = await encode(probe);
+        lastQuality = probe;
+        if (result.status !== 'success') {
+          return finish(result, probe);
+        }
+      }
+
+      // Without a quality that meets the target, the highest one tried comes closest
+      const chosen = best ?? Math.max(...trace.map(tried => tried.quality));
+      if (lastQuality !== chosen) {
+        result = await encode(chosen);
+      }
+      return finish(result, chosen);
+    } finally {
+      if (reference.directory) {
+        await fs.remove(reference.directory);
+      }
+    }
+  }
+
+  /**
+   * Encode an output within a byte budget. Quality is bisected between the minimum and the content-based value,
+   * which stays the ceiling; when even the minimum misses the budget, the output is downscaled at that quality
+   * @param pixelSource - File the pixels are read from
+   * @param outputPath - Output path, the chosen encode is the last one written there
+   * @param outputFormat - Target format
+   * @param quality - Content-aware quality the search starts from
+   * @param target - Size constraints of the rendering
+   * @param options - Conversion options of the rendering
+   * @param targetBytes - Byte budget
+   * @returns Conversion result of the chosen encode, with the search outcome
+   */
+  private async encodeWithinBudget(
+    pixelSource: string,
+    outputPath: string,
+    outputFormat: OutputFormat,
+    quality: number,
+    target: RenderTarget,
+    options: ConversionOptions,
+    targetBytes: number
+  ): Promise<OptimizationResult> {
+    let attempts = 0;
+    let maxWidth = target.maxWidth;
+    let maxHeight = target.maxHeight;
+    const encode = (encodeQuality: number, encodeOptions: ConversionOptions): Promise<OptimizationResult> => {
+      attempts++;
+      return this.webpConverter.convertToFormat(pixelSource, outputPath, outputFormat, encodeQuality, maxWidth, maxHeight, encodeOptions);
+    };
+    const finish = (result: OptimizationResult, finalQuality: number, downscaled?: { width: number; height: number }): OptimizationResult => ({
+      ...result,
+      budget: {
+        targetBytes,
+        met: result.status === 'success' && result.optimizedSize <= targetBytes,
+        quality: finalQuality,
+        attempts,
+        downscaled
+      }
+    });
+
+    let result = await encode(quality, options);
+    if (result.status !== 'success' || result.optimizedSize <= targetBytes) {
+      return finish(result, quality);
+    }
+
+    // Lossless encodes ignore quality, so a budget they miss is searched with lossy encodes
+    const lossy: ConversionOptions = { ...options, encodingMode: 'lossy', losslessJpegRecompression: false };
+    const wasLossy = result.encodingMode === 'lossy' && !result.losslessRecompression;
+    const minimum = Math.min(this.configManager.getConfig().quality.minimum, quality);
+
+    result = await encode(minimum, lossy);
+    if (result.status !== 'success') {
+      return finish(result, minimum);
+    }
+
+    if (result.optimizedSize <= targetBytes) {
+      // Highest quality within the budget, the lossy encode at the starting quality is already known to miss it
+      let best = minimum;
+      let low = minimum + 1;
+      let high = wasLossy ? quality - 1 : quality;
+      let lastQuality = minimum;
+      while (low <= high) {
+        const middle = Math.floor((low + high) / 2);
+        result = await encode(middle, lossy);
+        lastQuality = middle;
+        if (result.status !== 'success') {
+          return finish(result, middle);
+        }
+        if (result.optimizedSize <= targetBytes) {
+          best = middle;
+          low = middle + 1;
+        } else {
+          high = middle - 1;
+        }
+      }
+      if (lastQuality !== best) {
+        result = await encode(best, lossy);
+      }
+      return finish(result, best);
+    }
+
+    // Bytes grow roughly with the pixel count, so each step shrinks the edges by the square root of the overshoot
+    let size = await this.webpConverter.getRenderSize(pixelSource, maxWidth, maxHeight, lossy);
+    let downscaled: { width: number; height: number } | undefined;
+    for (let step = 0; step < BUDGET_MAX_DOWNSCALES && result.optimizedSize > targetBytes; step++) {
+      if (Math.max(size.width, size.height) <= BUDGET_MIN_EDGE) {
+        break;
+      }
+      const factor = Math.min(BUDGET_MAX_DOWNSCALE_FACTOR, Math.max(BUDGET_MIN_DOWNSCALE_FACTOR, Math.sqrt(targetBytes / result.optimizedSize)));
+      maxWidth = Math.max(1, Math.floor(size.width * factor));
+      maxHeight = Math.max(1, Math.floor(size.height * factor));
+      size = await this.webpConverter.getRenderSize(pixelSource, maxWidth, maxHeight, lossy);
+      downscaled = { width: size.width, height: size.height };
+
+      result = await encode(minimum, lossy);
+      if (result.status !== 'success') {
+        break;
+      }
+    }
+    return finish(result, minimum, downscaled);
+  }
+
+  /**
+   * Check whether an output has the pixel dimensions of its source, so the source can stand in for it
+   * @param imagePath - Path to the source image
+   * @param outputPath - Path to the encoded output
+   * @returns True if width and height match
+   */
+  private async hasSameDimensions(imagePath: string, outputPath: string): Promise<boolean> {
+    const source = (await this.webpConverter.getImageMetadata(imagePath)).dimensions;
+    const output = (await this.webpConverter.getImageMetadata(outputPath)).dimensions;
+    return source.width === output.width && source.height === output.height;
+  }
+
+  /**
+   * Keep a re-encoded WebP only if it is meaningfully smaller and structurally close to its source,
+   * otherwise put the source file in its place and skip it as already optimal
+   * @param imagePath - Path to the source WebP
+   * @param result - Successful conversion result for the re-encoded WebP
+   * @param metadataPolicy - Metadata policy the kept source copy must follow as well
+   * @returns Promise resolving to the conversion result or an already-optimal skip
+   */
+  private async keepReoptimizedWebP(
+    imagePath: string,
+    result: OptimizationResult,
+    metadataPolicy: MetadataPolicy
+  ): Promise<OptimizationResult> {
+    const { ssim } = await this.qualityValidator.measureStructuralSimilarity(imagePath, result.optimizedPath);
+
+    const qualityHeld = ssim >= REOPTIMIZATION_MIN_SSIM;
+    if (qualityHeld && result.compressionRatio >= REOPTIMIZATION_MIN_SAVINGS) {
+      return result;
+    }
+
+    await fs.copy(imagePath, result.optimizedPath, { overwrite: true });
+    // The source's pixels are encoded in its own profile, so that is kept whatever the policy
+    const metadata = await this.webpConverter.applyMetadataPolicy(imagePath, result.optimizedPath, 'webp', metadataPolicy, true);
+    const optimizedSize = (await fs.stat(result.optimizedPath)).size;
+
+    return {
+      ...result,
+      optimizedSize,
+      compressionRatio: ((result.originalSize - optimizedSize) / result.originalSize) * 100,
+      metadata,
+      status: 'skipped',
+      skipReason: 'already_optimal',
+      errorMessage: qualityHeld
+        ? `Already optimal: re-encoding saved only ${result.compressionRatio.toFixed(1)}%`
+        : `Already optimal: re-encoding lowered the SSIM to ${ssim.toFixed(3)}`
+    };
+  }
+
   /**
    * Validate batch processing options
    * @param options - Processing options to validate
@@ -265,6 +1322,18 @@ export class BatchProcessor extends EventEmitter {
     if (!isOutputSafe) {
       throw new Error(`Output directory contains files that might be overwritten: ${options.outputDirectory}`);
     }
+
+    // Check the central focal point file exists
+    const { mapFile } = this.configManager.getConfig().focalPoints;
+    if (mapFile && !(await fs.pathExists(mapFile))) {
+      throw new Error(`Focal point file does not exist: ${mapFile}`);
+    }
+
+    // Check the watermark image exists
+    const { image: watermarkImage } = this.configManager.getConfig().watermark;
+    if (watermarkImage && !(await fs.pathExists(watermarkImage))) {
+      throw new Error(`Watermark image does not exist: ${watermarkImage}`);
+    }
   }
 
   /**
@@ -308,9 +1377,17 @@ export class BatchProcessor extends EventEmitter {
     report: ProcessingReport
   ): Promise<void> {
     try {
-      // Save filename mapping
-      const mapping = this.fileManager.generateFilenameMapping(originalFiles, outputDirectory);
-      await this.fileManager.saveFilenameMapping(mapping, outputDirectory);
+      // Save filename mapping with per-format variants
+      const primaryFormat = this.configManager.getOutputFormats()[0];
+      const extension = getTargetFormatEncoder(primaryFormat).extension;
+      const mapping = this.fileManager.generateFilenameMapping(originalFiles, outputDirectory, extension);
+      const manifest = this.fileManager.generateImageManifest(report.results);
+
+      // Sized outputs carry a suffix, so map each source to the file that was actually written
+      for (const [originalFilename, entry] of Object.entries(manifest)) {
+        mapping[originalFilename] = entry.output;
+      }
+      await this.fileManager.saveFilenameMapping(mapping, outputDirectory, undefined, manifest);
 
       // Save processing report
       const reportPath = path.join(outputDirectory, 'optimization-report.json');
@@ -324,6 +1401,7 @@ export class BatchProcessor extends EventEmitter {
           averageCompressionRatio: Math.round(report.averageCompressionRatio * 100) / 100,
           processingTimeSeconds: Math.round(report.processingTime / 1000 * 100) / 100
         },
+        formats: report.formatTotals,
         results: report.results
       };
 
@@ -338,6 +1416,7 @@ export class BatchProcessor extends EventEmitter {
   /**
    * Process images in parallel with configurable concurrency and error resilience
    * @param imageFiles - Array of image file paths
+   * @param sourceDirectory - Source directory the image paths were scanned from
    * @param outputDirectory - Output directory path
    * @param concurrency - Maximum number of concurrent operations
    * @param onResult - Callback for each completed result
@@ -345,6 +1424,7 @@ export class BatchProcessor extends EventEmitter {
    */
   private async processImagesInParallel(
     imageFiles: string[],
+    sourceDirectory: string,
     outputDirectory: string,
     concurrency: number,
     onResult: (result: OptimizationResult, index: number) => void,
@@ -359,7 +1439,7 @@ export class BatchProcessor extends EventEmitter {
       await semaphore.acquire();
       
       try {
-        const result = await this.processImage(imagePath, outputDirectory);
+        const result = await this.processImage(imagePath, outputDirectory, sourceDirectory);
         onResult(result, index);
         
         // If individual processing fails and we shouldn't continue on error, propagate the error
@@ -0,0 +1,385 @@
+/**
+ * ICC profile detection, gamut clipping analysis and conversion to Display P3
+ */
+
+import * as zlib from 'zlib';
+import sharp from 'sharp';
+import { ColorGamut, OutputColorSpace } from '../types';
+
+type Matrix3 = [number, number, number, number, number, number, number, number, number];
+
+/**
+ * Embedded colour profile of a source image
+ */
+export interface ColorProfileInfo {
+  description: string;          // Profile description, e.g. 'Display P3'
+  gamut: ColorGamut;
+  toXyz: Matrix3 | null;        // Linear RGB to D50 XYZ, null for non-matrix (LUT) profiles
+  curves: number[][] | null;    // Per-channel 8-bit to linear lookup tables
+}
+
+// D50-adapted colorants of the output colour spaces, as stored in their ICC profiles (columns = R, G, B)
+const OUTPUT_TO_XYZ: Record<OutputColorSpace, Matrix3> = {
+  srgb: [
+    0.4360747, 0.3850649, 0.1430804,
+    0.2225045, 0.7168786, 0.0606169,
+    0.0139322, 0.0971045, 0.7141733
+  ],
+  display_p3: [
+    0.5151215, 0.2919769, 0.1571045,
+    0.2411957, 0.6922455, 0.0665741,
+    -0.0010529, 0.0418854, 0.7840729
+  ]
+};
+
+// Linear channel overshoot tolerated before a pixel counts as clipped
+const CLIP_TOLERANCE = 0.01;
+
+// Longest edge the source is reduced to for clipping analysis
+const ANALYSIS_SIZE = 256;
+
+// Steps of the linear to 8-bit lookup table used when encoding converted pixels
+const ENCODE_STEPS = 4096;
+
+// Display P3 profile bundled with libvips, read once on first conversion
+let displayP3Profile: Buffer | null = null;
+
+/**
+ * Parse the embedded ICC profile of an image
+ * @param icc - ICC profile data from Sharp metadata
+ * @returns Profile description, gamut and matrix/TRC data, or null if the profile is unreadable
+ */
+export function readColorProfile(icc: Buffer): ColorProfileInfo | null {
+  if (icc.length < 132 || icc.toString('ascii', 36, 40) !== 'acsp') {
+    return null;
+  }
+
+  const tags = new Map<string, { offset: number; size: number }>();
+  const tagCount = icc.readUInt32BE(128);
+  for (let i = 0; i < tagCount && 132 + i * 12 + 12 <= icc.length; i++) {
+    const entry = 132 + i * 12;
+    tags.set(icc.toString('ascii', entry, entry + 4), {
+      offset: icc.readUInt32BE(entry + 4),
+      size: icc.readUInt32BE(entry + 8)
+    });
+  }
+  const tagData = (signature: string) => {
+    const tag = tags.get(signature);
+    return tag && tag.offset + tag.size <= icc.length ? icc.subarray(tag.offset, tag.offset + tag.size) : null;
+  };
+
+  const description = readDescription(tagData('desc')) || 'Unnamed profile';
+  const colorants = ['rXYZ', 'gXYZ', 'bXYZ'].map(signature => readXyz(tagData(signature)));
+  const curves = ['rTRC', 'gTRC', 'bTRC'].map(signature => readCurve(tagData(signature)));
+
+  // Columns are the red, green and blue colorants
+  const toXyz = colorants.every(Boolean)
+    ? [0, 1, 2].flatMap(row => colorants.map(colorant => colorant![row])) as Matrix3
+    : null;
+
+  return {
+    description,
+    gamut: classifyGamut(description, toXyz),
+    toXyz,
+    curves: curves.every(Boolean) ? curves as number[][] : null
+  };
+}
+
+/**
+ * Measure the share of pixels whose colours fall outside an output colour space
+ * @param inputPath - Path to source image
+ * @param profile - Embedded profile of the source
+ * @param output - Colour space the output is encoded in
+ * @returns Percentage of pixels clipped (0-100), 0 when the profile cannot be analysed
+ */
+export async function measureGamutClipping(
+  inputPath: string,
+  profile: ColorProfileInfo,
+  output: OutputColorSpace
+): Promise<number> {
+  if (!profile.toXyz || !profile.curves) {
+    return 0;
+  }
+
+  // Read the source values as encoded, without Sharp's conversion to sRGB
+  const { data, info } = await sharp(inputPath, { ignoreIcc: true })
+    .rotate()
+    .resize(ANALYSIS_SIZE, ANALYSIS_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .removeAlpha()
+    .toColourspace('srgb')
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const toOutput = multiply(invert(OUTPUT_TO_XYZ[output]), profile.toXyz);
+  const [red, green, blue] = profile.curves;
+  const pixelCount = info.width * info.height;
+  let clipped = 0;
+
+  for (let i = 0; i < pixelCount; i++) {
+    const offset = i * info.channels;
+    const r = red[data[offset]];
+    const g = green[data[offset + 1]];
+    const b = blue[data[offset + 2]];
+    for (let row = 0; row < 3; row++) {
+      const value = toOutput[row * 3] * r + toOutput[row * 3 + 1] * g + toOutput[row * 3 + 2] * b;
+      if (value < -CLIP_TOLERANCE || value > 1 + CLIP_TOLERANCE) {
+        clipped++;
+        break;
+      }
+    }
+  }
+
+  return pixelCount > 0 ? (clipped / pixelCount) * 100 : 0;
+}
+
+/**
+ * Check if a gamut is wider than sRGB
+ * @param gamut - Detected gamut
+ * @returns True for wide-gamut profiles worth keeping as Display P3
+ */
+export function isWideGamut(gamut: ColorGamut): boolean {
+  return gamut === 'display_p3' || gamut === 'adobe_rgb' || gamut === 'prophoto' || gamut === 'rec2020';
+}
+
+/**
+ * Convert a source from its embedded profile to Display P3
+ * @param inputPath - Path to source image
+ * @param profile - Embedded profile of the source
+ * @returns Lossless PNG of the source in Display P3, with the Display P3 profile and the source EXIF and XMP embedded
+ */
+export async function convertToDisplayP3(inputPath: string, profile: ColorProfileInfo): Promise<Buffer> {
+  if (!profile.toXyz || !profile.curves) {
+    throw new Error(`Cannot convert ${profile.description} to Display P3: not a matrix profile`);
+  }
+
+  // Read the source values as encoded, without Sharp's conversion to sRGB
+  const { data, info } = await sharp(inputPath, { ignoreIcc: true })
+    .toColourspace('srgb')
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const { exif, xmp } = await sharp(inputPath).metadata();
+
+  // Source curves to linear, through XYZ into linear P3, then the sRGB transfer curve that Display P3 shares
+  const toP3 = multiply(invert(OUTPUT_TO_XYZ.display_p3), profile.toXyz);
+  const [red, green, blue] = profile.curves;
+  const encode = Array.from({ length: ENCODE_STEPS + 1 }, (_, step) => {
+    const linear = step / ENCODE_STEPS;
+    return Math.round(255 * (linear <= 0.0031308 ? 12.92 * linear : 1.055 * Math.pow(linear, 1 / 2.4) - 0.055));
+  });
+  const converted = Buffer.from(data);
+  for (let offset = 0; offset < data.length; offset += info.channels) {
+    const r = red[data[offset]];
+    const g = green[data[offset + 1]];
+    const b = blue[data[offset + 2]];
+    for (let row = 0; row < 3; row++) {
+      const value = toP3[row * 3] * r + toP3[row * 3 + 1] * g + toP3[row * 3 + 2] * b;
+      converted[offset + row] = encode[Math.round(Math.min(1, Math.max(0, value)) * ENCODE_STEPS)];
+    }
+  }
+
+  // Sharp converts to any profile it embeds, so the P3 profile is added to the encoded PNG instead, with the
+  // source metadata (orientation included) for the metadata policy to filter
+  const png = await sharp(converted, { raw: { width: info.width, height: info.height, channels: info.channels } })
+    .png()
+    .toBuffer();
+  const profileData = Buffer.concat([Buffer.from('Display P3\0\0', 'latin1'), zlib.deflateSync(await getDisplayP3Profile())]);
+  const chunks: { type: string; data: Buffer }[] = [{ type: 'iCCP', data: profileData }];
+  if (exif) {
+    // PNG stores the TIFF structure without the JPEG APP1 'Exif' prefix
+    chunks.push({ type: 'eXIf', data: exif.toString('latin1', 0, 6) === 'Exif\0\0' ? exif.subarray(6) : exif });
+  }
+  if (xmp) {
+    chunks.push({ type: 'iTXt', data: Buffer.concat([Buffer.from('XML:com.adobe.xmp\0\0\0\0\0', 'latin1'), xmp]) });
+  }
+  return insertPngChunks(png, chunks);
+}
+
+/**
+ * Name the gamut of a profile from its description, falling back to its colorants
+ */
+function classifyGamut(description: string, toXyz: Matrix3 | null): ColorGamut {
+  const name = description.toLowerCase();
+  if (name.includes('p3')) {
+    return 'display_p3';
+  }
+  if (name.includes('adobe rgb') || name.includes('adobergb')) {
+    return 'adobe_rgb';
+  }
+  if (name.includes('prophoto') || name.includes('romm')) {
+    return 'prophoto';
+  }
+  if (name.includes('2020')) {
+    return 'rec2020';
+  }
+  if (name.includes('srgb')) {
+    return 'srgb';
+  }
+
+  // Unnamed matrix profiles are compared with the known colorants
+  for (const space of ['srgb', 'display_p3'] as OutputColorSpace[]) {
+    if (toXyz && toXyz.every((value, index) => Math.abs(value - OUTPUT_TO_XYZ[space][index]) < 0.005)) {
+      return space;
+    }
+  }
+  return 'other';
+}
+
+/**
+ * Read a 'desc' (ICC v2) or 'mluc' (ICC v4) description tag
+ */
+function readDescription(tag: Buffer | null): string | null {
+  if (!tag || tag.length < 12) {
+    return null;
+  }
+
+  const type = tag.toString('ascii', 0, 4);
+  if (type === 'desc') {
+    const length = tag.readUInt32BE(8);
+    return tag.toString('latin1', 12, Math.min(tag.length, 12 + length)).replace(/\0+$/, '');
+  }
+  if (type === 'mluc' && tag.length >= 28) {
+    // First localised record, stored as UTF-16BE
+    const length = tag.readUInt32BE(20);
+    const offset = tag.readUInt32BE(24);
+    const text = Buffer.from(tag.subarray(offset, offset + length)).swap16();
+    return text.toString('utf16le').replace(/\0+$/, '');
+  }
+  return null;
+}
+
+/**
+ * Read an 'XYZ ' tag holding one colorant
+ */
+function readXyz(tag: Buffer | null): number[] | null {
+  if (!tag || tag.length < 20 || tag.toString('ascii', 0, 4) !== 'XYZ ') {
+    return null;
+  }
+  return [0, 1, 2].map(index => tag.readInt32BE(8 + index * 4) / 65536);
+}
+
+/**
+ * Read a 'curv' or 'para' tone curve into an 8-bit to linear lookup table
+ */
+function readCurve(tag: Buffer | null): number[] | null {
+  if (!tag || tag.length < 12) {
+    return null;
+  }
+
+  const type = tag.toString('ascii', 0, 4);
+  let curve: ((value: number) => number) | null = null;
+
+  if (type === 'curv') {
+    const count = tag.readUInt32BE(8);
+    if (count === 0) {
+      curve = value => value;
+    } else if (count === 1) {
+      const gamma = tag.readUInt16BE(12) / 256;
+      curve = value => Math.pow(value, gamma);
+    } else if (tag.length >= 12 + count * 2) {
+      // Sampled curve, interpolated between entries
+      curve = value => {
+        const position = value * (count - 1);
+        const index = Math.min(count - 2, Math.floor(position));
+        const low = tag.readUInt16BE(12 + index * 2);
+        const high = tag.readUInt16BE(12 + (index + 1) * 2);
+        return (low + (high - low) * (position - index)) / 65535;
+      };
+    }
+  } else if (type === 'para') {
+    const functionType = tag.readUInt16BE(8);
+    const parameterCount = [1, 3, 4, 5, 7][functionType];
+    if (parameterCount !== undefined && tag.length >= 12 + parameterCount * 4) {
+      const [g, a = 1, b = 0, c = 0, d = 0, e = 0, f = 0] = Array.from({ length: parameterCount }, (_, index) => tag.readInt32BE(12 + index * 4) / 65536);
+      curve = value => {
+        switch (functionType) {
+          case 0:
+            return Math.pow(value, g);
+          case 1:
+            return value >= -b / a ? Math.pow(a * value + b, g) : 0;
+          case 2:
+            return value >= -b / a ? Math.pow(a * value + b, g) + c : c;
+          case 3:
+            return value >= d ? Math.pow(a * value + b, g) : c * value;
+          default:
+            return value >= d ? Math.pow(a * value + b, g) + e : c * value + f;
+        }
+      };
+    }
+  }
+
+  return curve ? Array.from({ length: 256 }, (_, value) => curve!(value / 255)) : null;
+}
+
+/**
+ * Multiply two 3x3 matrices
+ */
+function multiply(a: Matrix3, b: Matrix3): Matrix3 {
+  const product: number[] = [];
+  for (let row = 0; row < 3; row++) {
+    for (let column = 0; column < 3; column++) {
+      product.push(a[row * 3] * b[column] + a[row * 3 + 1] * b[3 + column] + a[row * 3 + 2] * b[6 + column]);
+    }
+  }
+  return product as Matrix3;
+}
+
+/**
+ * Invert a 3x3 matrix
+ */
+function invert(m: Matrix3): Matrix3 {
+  const [a, b, c, d, e, f, g, h, i] = m;
+  const determinant = a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g);
+  return [
+    (e * i - f * h) / determinant, (c * h - b * i) / determinant, (b * f - c * e) / determinant,
+    (f * g - d * i) / determinant, (a * i - c * g) / determinant, (c * d - a * f) / determinant,
+    (d * h - e * g) / determinant, (b * g - a * h) / determinant, (a * e - b * d) / determinant
+  ];
+}
+
+/**
+ * Read the Display P3 profile libvips embeds for the 'p3' output profile
+ */
+async function getDisplayP3Profile(): Promise<Buffer> {
+  if (!displayP3Profile) {
+    const tagged = await sharp({ create: { width: 1, height: 1, channels: 3, background: '#000000' } })
+      .withMetadata({ icc: 'p3' })
+      .png()
+      .toBuffer();
+    displayP3Profile = (await sharp(tagged).metadata()).icc || null;
+    if (!displayP3Profile) {
+      throw new Error('Display P3 profile unavailable in this Sharp/libvips build');
+    }
+  }
+  return displayP3Profile;
+}
+
+/**
+ * Insert chunks after the IHDR chunk of a PNG
+ */
+function insertPngChunks(png: Buffer, chunks: { type: string; data: Buffer }[]): Buffer {
+  // Signature (8 bytes) and IHDR chunk (25 bytes) come first
+  const headerEnd = 33;
+  const encoded = chunks.map(({ type, data }) => {
+    const body = Buffer.concat([Buffer.from(type, 'latin1'), data]);
+    const chunk = Buffer.alloc(body.length + 8);
+    chunk.writeUInt32BE(data.length, 0);
+    body.copy(chunk, 4);
+    chunk.writeUInt32BE(crc32(body), body.length + 4);
+    return chunk;
+  });
+  return Buffer.concat([png.subarray(0, headerEnd), ...encoded, png.subarray(headerEnd)]);
+}
+
+/**
+ * CRC-32 of a PNG chunk's type and data
+ */
+function crc32(data: Buffer): number {
+  let crc = 0xFFFFFFFF;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xEDB88320 : crc >>> 1;
+    }
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
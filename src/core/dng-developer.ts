@@ -0,0 +1,497 @@
+/**
+ * DNG development: white balance, exposure, highlight recovery and tone curve,
+ * and extraction of the embedded JPEG previews
+ */
+
+import * as fs from 'fs-extra';
+import sharp from 'sharp';
+import { DngDevelopment, DngDevelopSettings, TONE_CURVES } from '../types';
+
+const TAG_NEW_SUBFILE_TYPE = 0x00fe;
+const TAG_IMAGE_WIDTH = 0x0100;
+const TAG_IMAGE_LENGTH = 0x0101;
+const TAG_COMPRESSION = 0x0103;
+const TAG_PHOTOMETRIC = 0x0106;
+const TAG_STRIP_OFFSETS = 0x0111;
+const TAG_ORIENTATION = 0x0112;
+const TAG_SAMPLES_PER_PIXEL = 0x0115;
+const TAG_STRIP_BYTE_COUNTS = 0x0117;
+const TAG_SUB_IFDS = 0x014a;
+const TAG_JPEG_OFFSET = 0x0201;
+const TAG_JPEG_LENGTH = 0x0202;
+const TAG_AS_SHOT_NEUTRAL = 0xc628;
+const PHOTOMETRIC_LINEAR_RAW = 34892;
+const SUBFILE_FULL_RESOLUTION = 0;
+const SUBFILE_PREVIEW = 1;
+const COMPRESSION_OLD_JPEG = 6;
+const COMPRESSION_JPEG = 7;
+
+// Bytes per value of the TIFF field types read here (BYTE, SHORT, LONG, RATIONAL, SRATIONAL, IFD)
+const TYPE_SIZES: Record<number, number> = { 1: 1, 3: 2, 4: 4, 5: 8, 10: 8, 13: 4 };
+
+// IFDs visited at most while walking a DNG, guarding against loops in malformed files
+const MAX_IFDS = 32;
+
+// Rotation and horizontal mirroring that display each EXIF orientation upright
+const ORIENTATIONS: Record<number, { angle: number; flop: boolean }> = {
+  2: { angle: 0, flop: true },
+  3: { angle: 180, flop: false },
+  4: { angle: 180, flop: true },
+  5: { angle: 90, flop: true },
+  6: { angle: 90, flop: false },
+  7: { angle: 270, flop: true },
+  8: { angle: 270, flop: false }
+};
+
+// Display encoding of developed pixels
+const DISPLAY_GAMMA = 2.2;
+
+// White balance gains are kept within this range so a colour cast cannot blow out a channel
+const MIN_GAIN = 0.25;
+const MAX_GAIN = 4;
+
+// Pixels this bright are left out of auto white balance, clipped highlights carry no colour information
+const AUTO_WB_CLIP = 0.95;
+
+// Auto white balance samples at most this many pixels
+const AUTO_WB_SAMPLES = 100000;
+
+/**
+ * Open TIFF structure of a DNG file
+ */
+interface TiffFile {
+  fileDescriptor: number;
+  littleEndian: boolean;
+}
+
+/**
+ * IFD entry with its value field as stored (inline value or offset)
+ */
+interface IfdEntry {
+  type: number;
+  count: number;
+  field: Buffer;
+}
+
+/**
+ * Embedded JPEG preview of a DNG
+ */
+export interface DngPreview {
+  data: Buffer;       // JPEG data, upright
+  width: number;      // Width as displayed
+  height: number;     // Height as displayed
+}
+
+/**
+ * Tags that steer development, from IFD0 and the raw image's SubIFD
+ */
+interface DngTags {
+  linear: boolean;                                    // Image data is scene-linear (LinearRaw) rather than display-encoded
+  asShotNeutral: [number, number, number] | null;     // Camera neutral under the shot's illuminant
+  rawSize: { width: number; height: number } | null;  // Stored size of the image that is developed
+  rawSubifd: number | null;                           // Index of the raw image among IFD0's SubIFDs, null for IFD0 itself
+  orientation: number;                                // EXIF orientation from IFD0
+}
+
+/**
+ * Develop a DNG into display-ready pixels
+ * @param inputPath - Path to the DNG file
+ * @param settings - White balance, exposure, highlight recovery and tone curve
+ * @returns Sharp instance over the developed 8-bit RGB pixels, and the development record
+ */
+export async function developDng(
+  inputPath: string,
+  settings: DngDevelopSettings
+): Promise<{ image: sharp.Sharp; development: DngDevelopment }> {
+  const tags = await readDngTags(inputPath);
+
+  // Decode at 16 bits per channel in display orientation for headroom during development. A raw SubIFD loads as
+  // plain bands without an orientation of its own, so it stays in bands and IFD0's orientation is applied to it here
+  let decoder: sharp.Sharp;
+  if (tags.rawSubifd === null) {
+    decoder = sharp(inputPath).rotate().toColourspace('rgb16');
+  } else {
+    const { angle, flop } = ORIENTATIONS[tags.orientation] || { angle: 0, flop: false };
+    decoder = sharp(inputPath, { subifd: tags.rawSubifd }).rotate(angle).flop(flop).toColourspace('multiband');
+  }
+  const { depth } = await decoder.metadata();
+  const { data, info } = await decoder
+    .removeAlpha()
+    .raw({ depth: 'ushort' })
+    .toBuffer({ resolveWithObject: true });
+  const pixels = new Uint16Array(data.buffer.slice(data.byteOffset, data.byteOffset + data.length));
+  const channels = info.channels;
+  const pixelCount = info.width * info.height;
+
+  // Code value to linear light; 8-bit SubIFD data keeps its 0-255 range when widened
+  const maxValue = tags.rawSubifd !== null && depth === 'uchar' ? 255 : 65535;
+  const toLinear = new Float32Array(65536);
+  for (let value = 0; value < 65536; value++) {
+    const normalised = Math.min(1, value / maxValue);
+    toLinear[value] = tags.linear ? normalised : Math.pow(normalised, DISPLAY_GAMMA);
+  }
+
+  const multipliers = settings.whiteBalance === 'auto'
+    ? autoWhiteBalance(pixels, channels, pixelCount, toLinear)
+    : asShotWhiteBalance(tags);
+  const gain = Math.pow(2, settings.exposure);
+  const knee = 1 - 0.75 * settings.highlightRecovery;
+
+  // Linear light (quantised to 16 bits) to display-encoded 8-bit output through the tone curve
+  const curve = buildToneCurve(typeof settings.toneCurve === 'string' ? TONE_CURVES[settings.toneCurve] : settings.toneCurve);
+  const toOutput = new Uint8Array(65536);
+  for (let value = 0; value < 65536; value++) {
+    const encoded = Math.pow(value / 65535, 1 / DISPLAY_GAMMA);
+    toOutput[value] = Math.round(Math.min(1, Math.max(0, curve(encoded))) * 255);
+  }
+
+  const output = Buffer.alloc(pixelCount * 3);
+  for (let i = 0; i < pixelCount; i++) {
+    const offset = i * channels;
+    let r = toLinear[pixels[offset]] * multipliers[0] * gain;
+    let g = toLinear[pixels[offset + 1]] * multipliers[1] * gain;
+    let b = toLinear[pixels[offset + 2]] * multipliers[2] * gain;
+
+    // Compress everything above the knee towards white, scaling all channels alike to keep the hue
+    const peak = Math.max(r, g, b);
+    if (peak > knee && knee < 1) {
+      const scale = (knee + (1 - knee) * (1 - Math.exp(-(peak - knee) / (1 - knee)))) / peak;
+      r *= scale;
+      g *= scale;
+      b *= scale;
+    }
+
+    output[i * 3] = toOutput[Math.round(Math.min(1, r) * 65535)];
+    output[i * 3 + 1] = toOutput[Math.round(Math.min(1, g) * 65535)];
+    output[i * 3 + 2] = toOutput[Math.round(Math.min(1, b) * 65535)];
+  }
+
+  return {
+    image: sharp(output, { raw: { width: info.width, height: info.height, channels: 3 } }),
+    development: { ...settings, multipliers }
+  };
+}
+
+/**
+ * White balance gains from the camera's as-shot neutral
+ * Display-encoded image data was already balanced by the camera, so it is left as is
+ */
+function asShotWhiteBalance(tags: DngTags): [number, number, number] {
+  if (!tags.linear || !tags.asShotNeutral) {
+    return [1, 1, 1];
+  }
+  const [red, green, blue] = tags.asShotNeutral;
+  return [clampGain(green / red), 1, clampGain(green / blue)];
+}
+
+/**
+ * Grey-world white balance gains that make the average unclipped pixel neutral
+ */
+function autoWhiteBalance(
+  pixels: Uint16Array,
+  channels: number,
+  pixelCount: number,
+  toLinear: Float32Array
+): [number, number, number] {
+  const step = Math.max(1, Math.floor(pixelCount / AUTO_WB_SAMPLES));
+  const sums = [0, 0, 0];
+  for (let i = 0; i < pixelCount; i += step) {
+    const offset = i * channels;
+    const r = toLinear[pixels[offset]];
+    const g = toLinear[pixels[offset + 1]];
+    const b = toLinear[pixels[offset + 2]];
+    if (Math.max(r, g, b) < AUTO_WB_CLIP) {
+      sums[0] += r;
+      sums[1] += g;
+      sums[2] += b;
+    }
+  }
+
+  if (sums.some(sum => sum === 0)) {
+    return [1, 1, 1];
+  }
+  return [clampGain(sums[1] / sums[0]), 1, clampGain(sums[1] / sums[2])];
+}
+
+function clampGain(gain: number): number {
+  return Math.min(MAX_GAIN, Math.max(MIN_GAIN, gain));
+}
+
+/**
+ * Build a smooth tone curve through control points without overshoot (monotone cubic interpolation)
+ * @param points - Ascending [input, output] pairs between 0 and 1
+ * @returns Curve function over display-encoded values
+ */
+function buildToneCurve(points: Array<[number, number]>): (value: number) => number {
+  const xs = points.map(point => point[0]);
+  const ys = points.map(point => point[1]);
+  const n = points.length;
+
+  // Secant slopes, then Fritsch-Carlson tangents
+  const secants = xs.slice(0, -1).map((x, i) => (ys[i + 1] - ys[i]) / (xs[i + 1] - x));
+  const tangents = xs.map((_, i) => {
+    if (i === 0) return secants[0];
+    if (i === n - 1) return secants[n - 2];
+    return secants[i - 1] * secants[i] <= 0 ? 0 : (secants[i - 1] + secants[i]) / 2;
+  });
+  for (let i = 0; i < n - 1; i++) {
+    if (secants[i] === 0) {
+      tangents[i] = 0;
+      tangents[i + 1] = 0;
+      continue;
+    }
+    const a = tangents[i] / secants[i];
+    const b = tangents[i + 1] / secants[i];
+    const magnitude = a * a + b * b;
+    if (magnitude > 9) {
+      const scale = 3 / Math.sqrt(magnitude);
+      tangents[i] = scale * a * secants[i];
+      tangents[i + 1] = scale * b * secants[i];
+    }
+  }
+
+  return (value: number) => {
+    if (value <= xs[0]) return ys[0];
+    if (value >= xs[n - 1]) return ys[n - 1];
+
+    let i = 0;
+    while (value > xs[i + 1]) i++;
+    const width = xs[i + 1] - xs[i];
+    const t = (value - xs[i]) / width;
+    const t2 = t * t;
+    const t3 = t2 * t;
+    return (2 * t3 - 3 * t2 + 1) * ys[i] +
+      (t3 - 2 * t2 + t) * width * tangents[i] +
+      (-2 * t3 + 3 * t2) * ys[i + 1] +
+      (t3 - t2) * width * tangents[i + 1];
+  };
+}
+
+/**
+ * Extract the largest JPEG preview embedded in a DNG
+ * Previews live in IFD0, its SubIFDs or the chained IFDs; the raw image data itself is never a candidate
+ * @param inputPath - Path to the DNG file
+ * @returns Largest preview, rotated to the DNG orientation, or null if the file carries none
+ */
+export async function extractDngPreview(inputPath: string): Promise<DngPreview | null> {
+  const candidates: Buffer[] = [];
+  let orientation = 1;
+
+  await withTiffFile(inputPath, async file => {
+    const header = await readBytes(file, 0, 8);
+    const pending = [read32(file, header, 4)];
+    const visited = new Set<number>();
+
+    while (pending.length > 0 && visited.size < MAX_IFDS) {
+      const offset = pending.shift()!;
+      if (offset === 0 || visited.has(offset)) {
+        continue;
+      }
+      const isIfd0 = visited.size === 0;
+      visited.add(offset);
+
+      const { entries, next } = await readIfd(file, offset);
+      pending.push(next, ...await readValues(file, entries.get(TAG_SUB_IFDS)));
+      if (isIfd0) {
+        orientation = (await readValues(file, entries.get(TAG_ORIENTATION)))[0] || 1;
+      }
+
+      const data = await readJpegData(file, entries);
+      if (data) {
+        candidates.push(data);
+      }
+    }
+  });
+
+  let largest: DngPreview | null = null;
+  for (const data of candidates) {
+    const { width = 0, height = 0 } = await sharp(data).metadata().catch(() => ({ width: 0, height: 0 }));
+    if (width * height > (largest ? largest.width * largest.height : 0)) {
+      largest = { data, width, height };
+    }
+  }
+  if (!largest || !ORIENTATIONS[orientation]) {
+    return largest;
+  }
+
+  // Previews are stored in sensor orientation, turn them upright losslessly as PNG
+  const { angle, flop } = ORIENTATIONS[orientation];
+  const { data, info } = await sharp(largest.data).rotate(angle).flop(flop).png().toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height };
+}
+
+/**
+ * Size of the image a DNG is developed from as displayed, which IFD0 often only carries as a thumbnail
+ * @param inputPath - Path to the DNG file
+ * @returns Raw image width and height after orientation, or null if the file does not state them
+ */
+export async function readDngRawSize(inputPath: string): Promise<{ width: number; height: number } | null> {
+  const { rawSize, orientation } = await readDngTags(inputPath);
+  if (!rawSize) {
+    return null;
+  }
+  return orientation >= 5 ? { width: rawSize.height, height: rawSize.width } : rawSize;
+}
+
+/**
+ * Read the tags that steer development
+ * Camera DNGs keep a thumbnail in IFD0 and the raw image in a SubIFD (NewSubFileType 0), whose photometric
+ * interpretation tells whether the data is linear. Only SubIFDs with a sample per colour channel are developed,
+ * mosaic (CFA) data is not demosaiced here, so IFD0 is developed instead
+ * @param inputPath - Path to the DNG file
+ * @returns Whether the data is linear, the as-shot neutral if present, and the developed image's location, size and orientation
+ */
+async function readDngTags(inputPath: string): Promise<DngTags> {
+  const tags: DngTags = { linear: false, asShotNeutral: null, rawSize: null, rawSubifd: null, orientation: 1 };
+
+  await withTiffFile(inputPath, async file => {
+    const header = await readBytes(file, 0, 8);
+    const { entries: ifd0 } = await readIfd(file, read32(file, header, 4));
+    tags.orientation = (await readValues(file, ifd0.get(TAG_ORIENTATION)))[0] || 1;
+
+    // The first full-resolution SubIFD with RGB samples is the raw data; IFD0 stands in for it otherwise
+    let raw = ifd0;
+    const subIfds = (await readValues(file, ifd0.get(TAG_SUB_IFDS))).slice(0, MAX_IFDS);
+    for (let index = 0; index < subIfds.length; index++) {
+      const { entries } = await readIfd(file, subIfds[index]);
+      const [subfileType = 0] = await readValues(file, entries.get(TAG_NEW_SUBFILE_TYPE));
+      const [samples = 1] = await readValues(file, entries.get(TAG_SAMPLES_PER_PIXEL));
+      if (subfileType === SUBFILE_FULL_RESOLUTION && samples >= 3) {
+        raw = entries;
+        tags.rawSubifd = index;
+        break;
+      }
+    }
+
+    tags.linear = (await readValues(file, raw.get(TAG_PHOTOMETRIC)))[0] === PHOTOMETRIC_LINEAR_RAW;
+    const [width] = await readValues(file, raw.get(TAG_IMAGE_WIDTH));
+    const [height] = await readValues(file, raw.get(TAG_IMAGE_LENGTH));
+    tags.rawSize = width && height ? { width, height } : null;
+
+    // AsShotNeutral belongs in IFD0, some writers put it with the raw data
+    for (const entries of [ifd0, raw]) {
+      const neutral = await readValues(file, entries.get(TAG_AS_SHOT_NEUTRAL));
+      if (!tags.asShotNeutral && neutral.length === 3 && neutral.every(value => value > 0)) {
+        tags.asShotNeutral = neutral as [number, number, number];
+      }
+    }
+  });
+
+  return tags;
+}
+
+/**
+ * JPEG data of a preview IFD
+ * @returns JPEG data, or null if the IFD holds no JPEG preview
+ */
+async function readJpegData(file: TiffFile, entries: Map<number, IfdEntry>): Promise<Buffer | null> {
+  // Thumbnail IFDs point at a complete JPEG stream
+  let [offset] = await readValues(file, entries.get(TAG_JPEG_OFFSET));
+  let [length] = await readValues(file, entries.get(TAG_JPEG_LENGTH));
+
+  if (offset === undefined || length === undefined) {
+    const [subfileType = 0] = await readValues(file, entries.get(TAG_NEW_SUBFILE_TYPE));
+    const [compression] = await readValues(file, entries.get(TAG_COMPRESSION));
+    const offsets = await readValues(file, entries.get(TAG_STRIP_OFFSETS));
+    const lengths = await readValues(file, entries.get(TAG_STRIP_BYTE_COUNTS));
+
+    // Previews are JPEG-compressed reduced-resolution images stored as a single strip
+    if ((subfileType & SUBFILE_PREVIEW) === 0 ||
+        (compression !== COMPRESSION_JPEG && compression !== COMPRESSION_OLD_JPEG) ||
+        offsets.length !== 1 || lengths.length !== 1) {
+      return null;
+    }
+    [offset, length] = [offsets[0], lengths[0]];
+  }
+
+  const data = await readBytes(file, offset, length);
+  return data.length === length && data[0] === 0xff && data[1] === 0xd8 ? data : null;
+}
+
+/**
+ * Read the entries of an IFD and the offset of the next one
+ */
+async function readIfd(file: TiffFile, offset: number): Promise<{ entries: Map<number, IfdEntry>; next: number }> {
+  const entries = new Map<number, IfdEntry>();
+  const countBuffer = await readBytes(file, offset, 2);
+  if (countBuffer.length < 2) {
+    return { entries, next: 0 };
+  }
+
+  const count = read16(file, countBuffer, 0);
+  const buffer = await readBytes(file, offset + 2, count * 12 + 4);
+  for (let position = 0; position + 12 <= Math.min(buffer.length, count * 12); position += 12) {
+    entries.set(read16(file, buffer, position), {
+      type: read16(file, buffer, position + 2),
+      count: read32(file, buffer, position + 4),
+      field: buffer.subarray(position + 8, position + 12)
+    });
+  }
+
+  const next = buffer.length >= count * 12 + 4 ? read32(file, buffer, count * 12) : 0;
+  return { entries, next };
+}
+
+/**
+ * Read the numeric values of an IFD entry, inline or out of line
+ * @returns Values, rationals as quotients; empty for missing entries and unsupported types
+ */
+async function readValues(file: TiffFile, entry: IfdEntry | undefined): Promise<number[]> {
+  const size = entry ? TYPE_SIZES[entry.type] : undefined;
+  if (!entry || !size) {
+    return [];
+  }
+
+  const length = size * entry.count;
+  const data = length <= 4 ? entry.field : await readBytes(file, read32(file, entry.field, 0), length);
+  const values: number[] = [];
+  for (let position = 0; position + size <= data.length; position += size) {
+    switch (entry.type) {
+      case 1:
+        values.push(data[position]);
+        break;
+      case 3:
+        values.push(read16(file, data, position));
+        break;
+      case 5:
+        values.push(read32(file, data, position) / (read32(file, data, position + 4) || 1));
+        break;
+      case 10: {
+        const read = file.littleEndian ? data.readInt32LE.bind(data) : data.readInt32BE.bind(data);
+        values.push(read(position) / (read(position + 4) || 1));
+        break;
+      }
+      default:
+        values.push(read32(file, data, position));
+    }
+  }
+  return values;
+}
+
+/**
+ * Open a DNG for reading its TIFF structure, closing it afterwards
+ */
+async function withTiffFile(inputPath: string, read: (file: TiffFile) => Promise<void>): Promise<void> {
+  const fileDescriptor = await fs.open(inputPath, 'r');
+  try {
+    const byteOrder = Buffer.alloc(2);
+    await fs.read(fileDescriptor, byteOrder, 0, 2, 0);
+    await read({ fileDescriptor, littleEndian: byteOrder[0] === 0x49 });
+  } finally {
+    await fs.close(fileDescriptor);
+  }
+}
+
+async function readBytes(file: TiffFile, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await fs.read(file.fileDescriptor, buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+}
+
+function read16(file: TiffFile, buffer: Buffer, offset: number): number {
+  return file.littleEndian ? buffer.readUInt16LE(offset) : buffer.readUInt16BE(offset);
+}
+
+function read32(file: TiffFile, buffer: Buffer, offset: number): number {
+  return file.littleEndian ? buffer.readUInt32LE(offset) : buffer.readUInt32BE(offset);
+}
@@ -0,0 +1,326 @@
+/**
+ * Target format encoders for the image conversion pipeline
+ */
+
+import sharp from 'sharp';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { EncodingMode, EncodingProfile, OutputFormat } from '../types';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Per-image settings passed to an encoder
+ */
+export interface EncoderSettings {
+  mode: EncodingMode;         // One of the encoder's supportedModes
+  profile: EncodingProfile;   // Content tuning profile
+  animation?: {               // Frame timing to keep when encoding an animated source
+    loop: number;
+    delay: number[];
+  };
+}
+
+/**
+ * WebP tuning applied for a content profile
+ */
+export interface WebPProfileSettings {
+  preset: 'photo' | 'picture' | 'drawing' | 'icon' | 'text';
+  alphaQuality: number;
+  smartSubsample: boolean;
+  filterStrength: number;   // Deblocking strength (0-100) the libwebp preset applies
+  effort: number;
+}
+
+/**
+ * WebP tuning profiles per content type
+ * Sharp does not expose libwebp's filter strength directly, so each profile pairs it with
+ * the preset that applies it; filterStrength documents the value that preset sets
+ */
+export const WEBP_PROFILES: Record<EncodingProfile, WebPProfileSettings> = {
+  photo: {
+    preset: 'photo',        // Outdoor photography, natural lighting
+    alphaQuality: 90,
+    smartSubsample: true,
+    filterStrength: 30,
+    effort: 6
+  },
+  picture: {
+    preset: 'picture',      // Indoor shots, portraits and mixed content
+    alphaQuality: 95,
+    smartSubsample: true,
+    filterStrength: 35,
+    effort: 6
+  },
+  drawing: {
+    preset: 'drawing',      // Illustrations and line art with high-contrast detail
+    alphaQuality: 100,
+    smartSubsample: true,
+    filterStrength: 10,
+    effort: 6
+  },
+  icon: {
+    preset: 'icon',         // Small colorful images, alpha edges must stay crisp
+    alphaQuality: 100,
+    smartSubsample: false,
+    filterStrength: 0,
+    effort: 6
+  },
+  text: {
+    preset: 'text',         // Screenshots and text-heavy UI, no deblocking blur
+    alphaQuality: 100,
+    smartSubsample: true,
+    filterStrength: 0,
+    effort: 5
+  }
+};
+
+/**
+ * Encoder definition for a target output format
+ */
+export interface TargetFormatEncoder {
+  format: OutputFormat;
+  extension: string;
+  mimeType: string;
+  supportedModes: EncodingMode[];   // Encoding modes the format can produce, preferred first
+  supportsAnimation: boolean;       // Multi-frame sources are encoded frame by frame, otherwise first frame only
+
+  /**
+   * Map a content-aware quality (WebP scale) onto the encoder's own quality scale
+   * @param quality - Quality from DynamicQualityCalculator (1-100)
+   * @returns Encoder-specific quality (1-100)
+   */
+  mapQuality(quality: number): number;
+
+  /**
+   * Apply the encoder to a Sharp pipeline
+   * @param image - Preprocessed and resized Sharp instance
+   * @param quality - Encoder-specific quality (already mapped)
+   * @param settings - Encoding mode and content profile
+   * @returns Sharp instance configured for output
+   */
+  encode(image: sharp.Sharp, quality: number, settings: EncoderSettings): sharp.Sharp;
+
+  /**
+   * Optionally recompress a JPEG source without decoding and re-encoding its pixels
+   * @param inputPath - Path to the source JPEG
+   * @param outputPath - Path for the recompressed output
+   * @returns True if recompressed, false if the recompression tool is not installed
+   */
+  recompressJpeg?(inputPath: string, outputPath: string): Promise<boolean>;
+}
+
+/**
+ * Clamp a quality value to the valid 1-100 encoder range
+ */
+function clampQuality(quality: number): number {
+  return Math.min(100, Math.max(1, Math.round(quality)));
+}
+
+/**
+ * WebP encoder - quality values are used as calculated
+ */
+const webpEncoder: TargetFormatEncoder = {
+  format: 'webp',
+  extension: 'webp',
+  mimeType: 'image/webp',
+  supportedModes: ['lossy', 'near_lossless', 'lossless'],
+  supportsAnimation: true,
+  mapQuality: (quality) => clampQuality(quality),
+  encode: (image, quality, { mode, profile, animation }) => {
+    const tuning = WEBP_PROFILES[profile];
+    return image.webp({
+      quality,          // In lossless modes this sets compression effort instead of fidelity
+      effort: tuning.effort,
+      lossless: mode === 'lossless',          // Exact pixels for palette graphics
+      nearLossless: mode === 'near_lossless', // Lossless coding of slightly preprocessed pixels
+      alphaQuality: tuning.alphaQuality,
+      smartSubsample: tuning.smartSubsample,
+      preset: tuning.preset,
+      ...(animation ? {
+        loop: animation.loop,     // Keep the source's playback count
+        delay: animation.delay,   // Keep per-frame timing
+        minSize: true,            // Pick the smallest keyframe/sub-frame layout
+        mixed: mode === 'lossy'   // Let flat frames use lossless coding within a lossy animation
+      } : {})
+    });
+  }
+};
+
+/**
+ * AVIF encoder - AV1 retains detail at much lower quality values than WebP,
+ * so the calculated quality is scaled down onto the AVIF range
+ * (WebP 78 → AVIF 54, WebP 88 → AVIF 61, WebP 95 → AVIF 66)
+ */
+const avifEncoder: TargetFormatEncoder = {
+  format: 'avif',
+  extension: 'avif',
+  mimeType: 'image/avif',
+  supportedModes: ['lossy', 'lossless'],
+  supportsAnimation: false,
+  mapQuality: (quality) => clampQuality(quality * 0.75 - 5),
+  encode: (image, quality, { mode, profile }) => image.avif({
+    quality,
+    lossless: mode === 'lossless',
+    effort: 5,                  // Balance encode time against file size
+    // Subsample photographic content for smaller hero images, keep full chroma for sharp-edged artwork
+    chromaSubsampling: profile === 'photo' || profile === 'picture' ? '4:2:0' : '4:4:4'
+  })
+};
+
+/**
+ * JPEG fallback encoder - mozjpeg matches WebP's visual quality a few points lower,
+ * transparent areas are flattened onto white since JPEG has no alpha channel
+ */
+const jpegEncoder: TargetFormatEncoder = {
+  format: 'jpeg',
+  extension: 'jpg',
+  mimeType: 'image/jpeg',
+  supportedModes: ['lossy'],
+  supportsAnimation: false,
+  mapQuality: (quality) => clampQuality(quality - 4),
+  encode: (image, quality) => image
+    .flatten({ background: '#ffffff' })
+    .jpeg({
+      quality,
+      mozjpeg: true,      // Trellis quantisation and optimised scans
+      progressive: true   // Render early on slow connections
+    })
+};
+
+/**
+ * PNG fallback encoder - lossless, so quality does not apply
+ */
+const pngEncoder: TargetFormatEncoder = {
+  format: 'png',
+  extension: 'png',
+  mimeType: 'image/png',
+  supportedModes: ['lossless'],
+  supportsAnimation: false,
+  mapQuality: () => 100,
+  encode: (image) => image.png({
+    compressionLevel: 9,      // Maximum zlib compression
+    adaptiveFiltering: true
+  })
+};
+
+/**
+ * JPEG XL encoder - quality uses the same JPEG-like scale as WebP,
+ * JPEG sources can be recompressed losslessly for archival
+ */
+const jxlEncoder: TargetFormatEncoder = {
+  format: 'jxl',
+  extension: 'jxl',
+  mimeType: 'image/jxl',
+  supportedModes: ['lossy', 'lossless'],
+  supportsAnimation: false,
+  mapQuality: (quality) => clampQuality(quality),
+  encode: (image, quality, { mode }) => image.jxl({
+    quality,
+    lossless: mode === 'lossless',
+    effort: 7         // libjxl default, good size/speed trade-off
+  }),
+  recompressJpeg: async (inputPath, outputPath) => {
+    try {
+      // cjxl stores the JPEG bitstream losslessly; EXIF and XMP are dropped like on every JPEG XL output, they may carry location data
+      await execFileAsync('cjxl', [
+        inputPath,
+        outputPath,
+        '--lossless_jpeg=1',
+        '--effort=7',
+        '-x', 'strip=exif',
+        '-x', 'strip=xmp',
+        '-x', 'strip=jumbf'
+      ]);
+      return true;
+    } catch (error) {
+      // Without cjxl the source is encoded like any other, Sharp cannot recompress the bitstream
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false;
+      }
+      throw new Error(`JPEG XL recompression failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+};
+
+/**
+ * Registry of available target format encoders
+ */
+export const TARGET_FORMAT_ENCODERS: Record<OutputFormat, TargetFormatEncoder> = {
+  webp: webpEncoder,
+  avif: avifEncoder,
+  jpeg: jpegEncoder,
+  png: pngEncoder,
+  jxl: jxlEncoder
+};
+
+/**
+ * Get the encoder for a target format
+ * @param format - Target output format
+ * @returns Encoder definition
+ */
+export function getTargetFormatEncoder(format: OutputFormat): TargetFormatEncoder {
+  const encoder = TARGET_FORMAT_ENCODERS[format];
+  if (!encoder) {
+    throw new Error(`Unsupported output format: ${format}`);
+  }
+  return encoder;
+}
+
+/**
+ * Check if a value names a supported output format
+ * @param value - Format name to check
+ * @returns True if the value is a supported output format
+ */
+export function isOutputFormat(value: string): value is OutputFormat {
+  return Object.prototype.hasOwnProperty.call(TARGET_FORMAT_ENCODERS, value);
+}
+
+/**
+ * Resolve a requested encoding mode to one the encoder supports
+ * @param encoder - Target format encoder
+ * @param mode - Requested encoding mode
+ * @returns Requested mode if supported, otherwise lossy or the encoder's only mode
+ */
+export function resolveEncodingMode(encoder: TargetFormatEncoder, mode: EncodingMode): EncodingMode {
+  if (encoder.supportedModes.includes(mode)) {
+    return mode;
+  }
+  return encoder.supportedModes.includes('lossy') ? 'lossy' : encoder.supportedModes[0];
+}
+
+/**
+ * Check if the installed libvips build can write a target format
+ * @param format - Target output format
+ * @returns True if Sharp can encode the format to a file
+ */
+export function isOutputFormatAvailable(format: OutputFormat): boolean {
+  const formatInfo = getFormatInfo(format);
+  return !!formatInfo && formatInfo.output.file;
+}
+
+/**
+ * Check if the installed libvips build can read back files of a target format
+ * @param format - Target output format
+ * @returns True if Sharp can decode the format from a file
+ */
+export function isOutputFormatReadable(format: OutputFormat): boolean {
+  const formatInfo = getFormatInfo(format);
+  return !!formatInfo && formatInfo.input.file;
+}
+
+/**
+ * Sharp's capabilities entry for a target format
+ * libvips handles AVIF in its HEIF loader and saver, Sharp lists it as an alias of heif
+ */
+function getFormatInfo(format: OutputFormat): sharp.AvailableFormatInfo | undefined {
+  return format === 'avif' ? sharp.format.heif : sharp.format[format];
+}
+
+/**
+ * Get list of supported output formats
+ * @returns Array of output format names
+ */
+export function getOutputFormats(): OutputFormat[] {
+  return Object.keys(TARGET_FORMAT_ENCODERS) as OutputFormat[];
+}
\ No newline at end of file
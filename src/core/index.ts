@@ -5,7 +5,12 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
 import sharp from 'sharp';
-import { DEFAULT_CONFIG, ImageMetadata, OptimizationResult } from '../types';
+import { ColorInfo, CropInfo, CropStrategy, DEFAULT_CONFIG, DngDevelopment, DngDevelopSettings, EncodingMode, EncodingProfile, FocalPoint, ImageMetadata, INPUT_FORMATS, MetadataCategory, MetadataPolicy, OptimizationResult, OutputColorSpace, OutputFormat, ResizeFit, ResizeKernel, WatermarkSettings, getInputFormatForExtension, isInputFormat, parseAspectRatio } from '../types';
+import { getTargetFormatEncoder, isOutputFormatAvailable, isOutputFormatReadable, resolveEncodingMode } from './format-converter';
+import { applyMetadataPolicy, getMetadataCategories, supportsMetadataPolicy } from './metadata-policy';
+import { ColorProfileInfo, convertToDisplayP3, isWideGamut, measureGamutClipping, readColorProfile } from './color-management';
+import { developDng, readDngRawSize } from './dng-developer';
+import { applyWatermark } from './watermark';
 
 // Export quality optimization components
 export { ImageContentAnalyzer, DynamicQualityCalculator, QualityValidator } from './quality-optimizer';
@@ -13,6 +18,10 @@ export { ImageContentAnalyzer, DynamicQualityCalculator, QualityValidator } from
 // Export progress reporting components
 export { ProgressReporter } from './progress-reporter';
 
+// Export target format encoders
+export { TARGET_FORMAT_ENCODERS, WEBP_PROFILES, getTargetFormatEncoder, isOutputFormat, isOutputFormatAvailable, isOutputFormatReadable, resolveEncodingMode, getOutputFormats } from './format-converter';
+export type { TargetFormatEncoder, EncoderSettings, WebPProfileSettings } from './format-converter';
+
 /**
  * Format detection system for image files
  */
@@ -39,15 +48,21 @@ export class FormatDetector {
       // Read the first 12 bytes to identify format by magic bytes
       const buffer = Buffer.alloc(12);
       const fileDescriptor = await fs.open(imagePath, 'r');
+      let format: string | null;
       
       try {
         await fs.read(fileDescriptor, buffer, 0, 12, 0);
+
+        // Detect format based on magic bytes
+        format = this.identifyFormatFromBuffer(buffer);
+
+        // DNG shares the TIFF header, tell them apart by the DNGVersion tag in the first IFD
+        if (format === 'tiff' && await this.hasDngVersionTag(fileDescriptor, buffer)) {
+          format = 'dng';
+        }
       } finally {
         await fs.close(fileDescriptor);
       }
-
-      // Detect format based on magic bytes
-      const format = this.identifyFormatFromBuffer(buffer);
       
       // Validate detected format against file extension as additional check
       const fileExtension = path.extname(imagePath).toLowerCase().replace('.', '');
@@ -82,15 +97,73 @@ export class FormatDetector {
       return 'png';
     }
 
-    // DNG/TIFF magic bytes: 49 49 2A 00 (little endian) or 4D 4D 00 2A (big endian)
+    // TIFF magic bytes: 49 49 2A 00 (little endian) or 4D 4D 00 2A (big endian), DNG is resolved by the caller
     if ((buffer[0] === 0x49 && buffer[1] === 0x49 && buffer[2] === 0x2A && buffer[3] === 0x00) ||
         (buffer[0] === 0x4D && buffer[1] === 0x4D && buffer[2] === 0x00 && buffer[3] === 0x2A)) {
-      return 'dng';
+      return 'tiff';
+    }
+
+    // BMP magic bytes: 42 4D ("BM")
+    if (buffer[0] === 0x42 && buffer[1] === 0x4D) {
+      return 'bmp';
+    }
+
+    // WebP magic bytes: "RIFF" then "WEBP" at offset 8
+    if (buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') {
+      return 'webp';
+    }
+
+    // HEIF magic bytes: ISO BMFF "ftyp" box at offset 4 with a HEIF image brand
+    if (buffer.toString('ascii', 4, 8) === 'ftyp' &&
+        ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'].includes(buffer.toString('ascii', 8, 12))) {
+      return 'heif';
+    }
+
+    // GIF magic bytes: 47 49 46 38 ("GIF8", followed by 7a or 9a)
+    if (buffer[0] === 0x47 && buffer[1] === 0x49 && buffer[2] === 0x46 && buffer[3] === 0x38) {
+      return 'gif';
+    }
+
+    // SVG is XML text: an XML declaration or the <svg> root, optionally after a UTF-8 BOM
+    const text = buffer.toString('utf8').replace(/^\uFEFF/, '').trimStart();
+    if (text.startsWith('<?xml') || text.startsWith('<svg')) {
+      return 'svg';
     }
 
     return null;
   }
 
+  /**
+   * Check if a TIFF file is a DNG by looking for the DNGVersion tag (0xC612) in IFD0
+   * @param fileDescriptor - Open file descriptor
+   * @param header - First bytes of the file, containing the TIFF header
+   * @returns True if the first IFD carries a DNGVersion tag
+   */
+  private async hasDngVersionTag(fileDescriptor: number, header: Buffer): Promise<boolean> {
+    const littleEndian = header[0] === 0x49;
+    const ifdOffset = littleEndian ? header.readUInt32LE(4) : header.readUInt32BE(4);
+
+    const countBuffer = Buffer.alloc(2);
+    const { bytesRead } = await fs.read(fileDescriptor, countBuffer, 0, 2, ifdOffset);
+    if (bytesRead < 2) {
+      return false;
+    }
+
+    // Each IFD entry is 12 bytes, starting with its 2-byte tag
+    const entryCount = littleEndian ? countBuffer.readUInt16LE(0) : countBuffer.readUInt16BE(0);
+    const entries = Buffer.alloc(entryCount * 12);
+    const entriesRead = (await fs.read(fileDescriptor, entries, 0, entries.length, ifdOffset + 2)).bytesRead;
+
+    for (let offset = 0; offset + 2 <= entriesRead; offset += 12) {
+      const tag = littleEndian ? entries.readUInt16LE(offset) : entries.readUInt16BE(offset);
+      if (tag === 0xC612) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
   /**
    * Check if detected format is consistent with file extension
    * @param detectedFormat - Format detected from magic bytes
@@ -98,14 +171,8 @@ export class FormatDetector {
    * @returns True if format and extension are consistent
    */
   private isFormatConsistentWithExtension(detectedFormat: string, fileExtension: string): boolean {
-    const extensionMap: Record<string, string[]> = {
-      'jpeg': ['jpg', 'jpeg'],
-      'png': ['png'],
-      'dng': ['dng', 'tiff', 'tif']
-    };
-
-    const validExtensions = extensionMap[detectedFormat.toLowerCase()];
-    return validExtensions ? validExtensions.includes(fileExtension.toLowerCase()) : false;
+    const format = detectedFormat.toLowerCase();
+    return isInputFormat(format) && INPUT_FORMATS[format].extensions.includes(fileExtension.toLowerCase());
   }
 
   /**
@@ -114,18 +181,9 @@ export class FormatDetector {
    * @returns Detected format or null if unsupported
    */
   private detectFormatFromExtension(imagePath: string): string | null {
-    const extension = path.extname(imagePath).toLowerCase().replace('.', '');
-    
     // Map extensions to standard format names
-    const extensionMap: Record<string, string> = {
-      'jpg': 'jpeg',
-      'jpeg': 'jpeg',
-      'png': 'png',
-      'dng': 'dng'
-    };
-
-    const format = extensionMap[extension];
-    return format && this.supportedFormats.includes(format) ? format : null;
+    const format = getInputFormatForExtension(path.extname(imagePath));
+    return format && this.isFormatSupported(format) ? format : null;
   }
 
   /**
@@ -134,9 +192,24 @@ export class FormatDetector {
    * @returns True if format can be converted to WebP
    */
   validateWebPCompatibility(format: string): boolean {
-    // All our supported formats can be converted to WebP using Sharp
-    const webpCompatibleFormats = ['jpeg', 'png', 'dng'];
-    return webpCompatibleFormats.includes(format.toLowerCase());
+    // Any registered format can be converted when the Sharp/libvips build has its decoder
+    const normalized = format.toLowerCase();
+    if (!isInputFormat(normalized)) {
+      return false;
+    }
+    const decoder = sharp.format[INPUT_FORMATS[normalized].decoder as keyof sharp.FormatEnum];
+    return !!decoder && decoder.input.file;
+  }
+
+  /**
+   * Validate format compatibility with a target output format
+   * @param format - Source image format to validate
+   * @param outputFormat - Target output format
+   * @returns True if format can be converted to the target and the encoder is available
+   */
+  validateOutputCompatibility(format: string, outputFormat: OutputFormat): boolean {
+    // Every output goes through the same Sharp decode path as WebP
+    return this.validateWebPCompatibility(format) && isOutputFormatAvailable(outputFormat);
   }
 
   /**
@@ -145,7 +218,11 @@ export class FormatDetector {
    * @returns True if format is supported
    */
   isFormatSupported(format: string): boolean {
-    return this.supportedFormats.includes(format.toLowerCase());
+    // Supported formats are configured by extension, so a format is supported if any of its extensions is
+    const normalized = format.toLowerCase();
+    return isInputFormat(normalized)
+      ? INPUT_FORMATS[normalized].extensions.some(extension => this.supportedFormats.includes(extension))
+      : this.supportedFormats.includes(normalized);
   }
 
   /**
@@ -196,7 +273,9 @@ export class FormatDetector {
           isValid: false,
           format,
           isWebPCompatible,
-          errorMessage: `Format ${format} cannot be converted to WebP`
+          errorMessage: isInputFormat(format)
+            ? `Unsupported decoder: ${format} needs the ${INPUT_FORMATS[format].decoder} loader, which this Sharp/libvips build lacks`
+            : `Format ${format} cannot be converted to WebP`
         };
       }
 
@@ -216,6 +295,58 @@ export class FormatDetector {
   }
 }
 
+/**
+ * Per-conversion encoding options
+ */
+export interface ConversionOptions {
+  losslessJpegRecompression?: boolean;  // Recompress JPEG sources losslessly where the encoder supports it
+  encodingMode?: EncodingMode;          // Requested compression mode (default: lossy)
+  encodingProfile?: EncodingProfile;    // Encoder tuning profile (default: from detected content type)
+  crop?: CropOptions;                   // Crop to an aspect ratio before resizing and encoding
+  resize?: ResizeOptions;               // Fit mode, kernel and upscaling (default: fit inside, never enlarge)
+  metadata?: MetadataPolicy;            // Source metadata kept in the output (default: strip)
+  color?: ColorOptions;                 // Output colour space for sources with an embedded profile (default: sRGB)
+  develop?: DngDevelopSettings;         // Development of DNG sources (default: DEFAULT_CONFIG.dng)
+  watermark?: WatermarkSettings;        // Mark composited after resizing, on every frame (default: none)
+}
+
+/**
+ * Colour space handling for sources with an embedded ICC profile
+ */
+export interface ColorOptions {
+  output?: OutputColorSpace;    // 'display_p3' keeps wide-gamut sources in P3, WebP and JPEG only
+  clipThreshold?: number;       // Percentage of out-of-gamut pixels that flags clipping (default: 5)
+}
+
+/**
+ * How the image is fitted to the maximum dimensions
+ */
+export interface ResizeOptions {
+  fit?: ResizeFit;              // Default: 'inside'
+  background?: string | null;   // Padding colour for 'contain', null pads with transparency
+  kernel?: ResizeKernel;        // Default: 'lanczos3'
+  maxUpscale?: number;          // Largest enlargement factor (default: 1, never enlarge)
+}
+
+/**
+ * Aspect ratio crop applied before encoding
+ */
+export interface CropOptions {
+  preset: string;               // Preset name recorded in the result
+  aspectRatio: string;          // Width:height, e.g. '16:9'
+  strategy: CropStrategy;       // Region choice when no focal point is given
+  focalPoint?: FocalPoint;      // Centre the region on this point instead of using the strategy
+}
+
+/**
+ * Target size and background for SVG rasterisation
+ */
+export interface SvgRasterOptions {
+  width?: number;               // Pixel width, height follows the aspect ratio
+  density?: number;             // Multiple of the intrinsic size when no width is given (default: 1)
+  background?: string | null;   // Fill for transparent areas, null keeps transparency
+}
+
 /**
  * WebP conversion engine using Sharp library
  */
@@ -241,10 +372,54 @@ export class WebPConverter {
     quality: number = 80,
     maxWidth: number = 1920,
     maxHeight: number = 1080
+  ): Promise<OptimizationResult> {
+    return this.convertToFormat(inputPath, outputPath, 'webp', quality, maxWidth, maxHeight);
+  }
+
+  /**
+   * Convert image to AVIF format with specified quality and web optimization constraints
+   * @param inputPath - Path to source image
+   * @param outputPath - Path for AVIF output
+   * @param quality - Content-aware quality setting (1-100, WebP scale)
+   * @param maxWidth - Maximum width constraint (default: 1920px)
+   * @param maxHeight - Maximum height constraint (default: 1080px)
+   * @returns Promise resolving to optimization result
+   */
+  async convertToAVIF(
+    inputPath: string, 
+    outputPath: string, 
+    quality: number = 80,
+    maxWidth: number = 1920,
+    maxHeight: number = 1080
+  ): Promise<OptimizationResult> {
+    return this.convertToFormat(inputPath, outputPath, 'avif', quality, maxWidth, maxHeight);
+  }
+
+  /**
+   * Convert image to a target format through the shared preprocessing and resize pipeline
+   * @param inputPath - Path to source image
+   * @param outputPath - Path for encoded output
+   * @param format - Target output format
+   * @param quality - Content-aware quality setting (1-100), mapped onto the encoder's scale
+   * @param maxWidth - Maximum width constraint (default: 1920px)
+   * @param maxHeight - Maximum height constraint (default: 1080px)
+   * @param options - Additional encoding options
+   * @returns Promise resolving to optimization result
+   */
+  async convertToFormat(
+    inputPath: string, 
+    outputPath: string, 
+    format: OutputFormat,
+    quality: number = 80,
+    maxWidth: number = 1920,
+    maxHeight: number = 1080,
+    options: ConversionOptions = {}
   ): Promise<OptimizationResult> {
     const startTime = Date.now();
     
     try {
+      const encoder = getTargetFormatEncoder(format);
+
       // Validate input file
       const validation = await this.formatDetector.validateImageFile(inputPath);
       if (!validation.isValid) {
@@ -259,27 +434,111 @@ export class WebPConverter {
       const outputDir = path.dirname(outputPath);
       await fs.ensureDir(outputDir);
 
-      // Get image metadata for preprocessing decisions
-      const metadata = await this.getImageMetadata(inputPath);
+      // Lossless recompression keeps the source pixels and dimensions untouched, so it cannot carry a watermark
+      let losslessRecompression = !!options.losslessJpegRecompression &&
+        validation.format === 'jpeg' &&
+        !!encoder.recompressJpeg &&
+        !options.watermark;
+      let encoderQuality: number;
+      let encodingMode: EncodingMode;
+      let encodingProfile: EncodingProfile | undefined;
+      let animation: ImageMetadata['animation'];
+      let crop: CropInfo | undefined;
+      let color: ColorInfo | undefined;
+      let development: DngDevelopment | undefined;
+      let keepWideGamut = false;
+      let watermarked = false;
+
+      // Falls back to the regular encode when the recompression tool is missing
+      if (losslessRecompression) {
+        losslessRecompression = await encoder.recompressJpeg!(inputPath, outputPath);
+      }
 
-      // Apply format-specific preprocessing and convert to WebP
-      const sharpInstance = await this.createSharpInstance(inputPath, validation.format!);
-      let processedImage = await this.applyPreprocessing(sharpInstance, validation.format!, metadata);
-      
-      // Apply dimension constraints while preserving aspect ratio
-      processedImage = await this.applyDimensionConstraints(processedImage, metadata, maxWidth, maxHeight);
-      
-      // Convert to WebP with enhanced settings for web optimization
-      await processedImage
-        .webp({ 
-          quality: Math.round(quality),
-          effort: 6,        // Higher effort for better compression
-          lossless: false,  // Use lossy compression for smaller files
-          nearLossless: false,
-          smartSubsample: true,  // Better color subsampling
-          preset: 'photo'   // Optimize for photographic content
-        })
-        .toFile(outputPath);
+      if (losslessRecompression) {
+        encoderQuality = 100;
+        encodingMode = 'lossless';
+      } else {
+        if (!this.formatDetector.validateOutputCompatibility(validation.format!, format)) {
+          throw new Error(`Format ${validation.format} cannot be converted to ${format.toUpperCase()} with this Sharp/libvips build`);
+        }
+
+        // Get image metadata for preprocessing decisions
+        const metadata = await this.getImageMetadata(inputPath);
+
+        // Keep every frame when the target can store an animation, otherwise encode the first frame (always for crops)
+        animation = encoder.supportsAnimation && !options.crop ? metadata.animation : undefined;
+
+        // Wide-gamut still images are converted to Display P3 and tagged P3 on output, only where the profile can be embedded
+        const colorProfile = await this.getColorProfile(inputPath);
+        keepWideGamut = options.color?.output === 'display_p3' &&
+          !!colorProfile && isWideGamut(colorProfile.gamut) &&
+          !!colorProfile.toXyz && !!colorProfile.curves &&
+          !animation && supportsMetadataPolicy(format);
+
+        // Apply format-specific preprocessing; otherwise Sharp converts embedded profiles to sRGB on load
+        const source = keepWideGamut ? await convertToDisplayP3(inputPath, colorProfile!) : inputPath;
+        const sharpInstance = await this.createSharpInstance(source, validation.format!, !!animation, keepWideGamut);
+        const preprocessed = await this.applyPreprocessing(sharpInstance, validation.format!, metadata, options.develop);
+        let processedImage = preprocessed.image;
+        development = preprocessed.development;
+        
+        // Crop to the target aspect ratio, or apply dimension constraints while preserving it (per frame for animations)
+        let completeCrop: ((info: sharp.OutputInfo) => CropInfo) | undefined;
+        if (options.crop) {
+          const cropped = await this.applyCrop(processedImage, inputPath, maxWidth, maxHeight, options.crop, options.resize);
+          processedImage = cropped.image;
+          completeCrop = cropped.complete;
+        } else {
+          processedImage = await this.applyDimensionConstraints(processedImage, metadata, maxWidth, maxHeight, options.resize);
+        }
+
+        // The mark is sized from the resized output, so it keeps its proportions across variants and every frame carries it
+        if (options.watermark) {
+          const size = await this.getRenderSize(inputPath, maxWidth, maxHeight, options);
+          processedImage = await applyWatermark(processedImage, options.watermark, size, animation?.frameCount);
+          watermarked = true;
+        }
+        
+        // Encode with the target format's settings
+        encoderQuality = encoder.mapQuality(quality);
+        encodingMode = resolveEncodingMode(encoder, options.encodingMode || 'lossy');
+        encodingProfile = options.encodingProfile || this.getDefaultProfile(metadata.contentType);
+
+        // Carry all source metadata into containers that can be filtered afterwards, Sharp strips it otherwise
+        const metadataPolicy = options.metadata || 'strip';
+        if (keepWideGamut) {
+          processedImage = processedImage.withMetadata({ icc: 'p3' });
+        } else if (metadataPolicy !== 'strip' && supportsMetadataPolicy(format)) {
+          processedImage = processedImage.withMetadata();
+        }
+
+        const outputInfo = await encoder
+          .encode(processedImage, encoderQuality, {
+            mode: encodingMode,
+            profile: encodingProfile,
+            animation: animation ? { loop: animation.loop, delay: animation.delay } : undefined
+          })
+          .toFile(outputPath);
+        crop = completeCrop?.(outputInfo);
+
+        if (colorProfile) {
+          color = await this.describeColorConversion(
+            inputPath,
+            colorProfile,
+            keepWideGamut ? 'display_p3' : 'srgb',
+            options.color?.clipThreshold ?? DEFAULT_CONFIG.color.clipThreshold
+          );
+        }
+      }
+
+      // A P3 output keeps its profile whatever the policy, its colours are wrong without it; so does a recompressed JPEG
+      const metadataReport = await this.applyMetadataPolicy(
+        inputPath,
+        outputPath,
+        format,
+        options.metadata || 'strip',
+        keepWideGamut || losslessRecompression
+      );
 
       // Get output file stats
       const outputStats = await fs.stat(outputPath);
@@ -295,7 +554,18 @@ export class WebPConverter {
         compressionRatio,
         qualityScore: quality,
         processingTime,
-        status: 'success'
+        status: 'success',
+        format,
+        encoderQuality,
+        encodingMode,
+        encodingProfile,
+        ...(losslessRecompression ? { losslessRecompression } : {}),
+        ...(animation ? { animation: { ...animation, bytesSaved: originalSize - optimizedSize } } : {}),
+        ...(crop ? { crop } : {}),
+        ...(color ? { color } : {}),
+        ...(development ? { development } : {}),
+        ...(watermarked ? { watermarked } : {}),
+        metadata: metadataReport
       };
 
     } catch (error) {
@@ -311,20 +581,174 @@ export class WebPConverter {
         qualityScore: quality,
         processingTime,
         status: 'failed',
-        errorMessage
+        errorMessage,
+        format
       };
     }
   }
 
   /**
-   * Create Sharp instance with error handling for corrupted files
+   * Rasterise an SVG to a lossless PNG at a pixel width or density multiple
+   * @param inputPath - Path to source SVG
+   * @param outputPath - Path for the rasterised PNG
+   * @param options - Target width or density, and background for transparent areas
+   * @returns Promise resolving to the rasterised dimensions
+   */
+  async rasterizeSvg(inputPath: string, outputPath: string, options: SvgRasterOptions): Promise<{ width: number; height: number }> {
+    try {
+      // librsvg renders at 72 DPI by default, which is the SVG's intrinsic size
+      const intrinsic = await sharp(inputPath).metadata();
+      const scale = options.width && intrinsic.width
+        ? options.width / intrinsic.width
+        : options.density || 1;
+
+      // Render at the target density so vector detail is not lost to upscaling a small raster
+      let image = sharp(inputPath, { density: Math.min(100000, 72 * scale) });
+      if (options.width) {
+        image = image.resize({ width: options.width });
+      }
+      if (options.background) {
+        image = image.flatten({ background: options.background });
+      }
+
+      const info = await image.png().toFile(outputPath);
+      return { width: info.width, height: info.height };
+    } catch (error) {
+      throw new Error(`SVG rasterisation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Render the lossless reference an output is measured against: the source cut to the output's crop region,
+   * fitted to the output size as the output was and carrying the same watermark, so both line up pixel for pixel
+   * @param inputPath - Path to source image
+   * @param outputPath - Path for the lossless PNG reference
+   * @param width - Output width
+   * @param height - Output height
+   * @param options - Crop region, fit mode and watermark of the output
+   */
+  async renderReference(
+    inputPath: string,
+    outputPath: string,
+    width: number,
+    height: number,
+    options: { region?: CropInfo['region']; resize?: ResizeOptions; watermark?: WatermarkSettings } = {}
+  ): Promise<void> {
+    try {
+      let image = sharp(inputPath).rotate();
+      if (options.region) {
+        image = image.extract(options.region);
+      }
+
+      // A crop region already has the output's aspect ratio, padded and covered outputs are fitted the same way
+      const fit = options.resize?.fit;
+      image = image.resize(width, height, {
+        fit: !options.region && (fit === 'contain' || fit === 'cover') ? fit : 'fill',
+        background: options.resize?.background || { r: 0, g: 0, b: 0, alpha: 0 },
+        kernel: options.resize?.kernel || sharp.kernel.lanczos3
+      });
+
+      if (options.watermark) {
+        image = await applyWatermark(image, options.watermark, { width, height });
+      }
+      await image.png().toFile(outputPath);
+    } catch (error) {
+      throw new Error(`Reference rendering failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Filter an output's metadata by policy and report what the source had that the output lacks
+   * @param inputPath - Path to source image
+   * @param outputPath - Path to the encoded output, rewritten in place
+   * @param format - Output format
+   * @param policy - Metadata retention policy
+   * @param keepIcc - Keep the colour profile even if the policy strips it
+   * @returns Applied policy and removed metadata categories
+   */
+  async applyMetadataPolicy(
+    inputPath: string,
+    outputPath: string,
+    format: OutputFormat,
+    policy: MetadataPolicy,
+    keepIcc: boolean = false
+  ): Promise<NonNullable<OptimizationResult['metadata']>> {
+    try {
+      await applyMetadataPolicy(outputPath, format, policy, keepIcc);
+
+      // Outputs Sharp cannot decode (JPEG XL without libjxl) are stripped of everything but a kept profile. The output
+      // is read from memory: searches rewrite it at other sizes, and libvips caches headers it loads by path
+      const source = await sharp(inputPath).metadata();
+      const kept = new Set<MetadataCategory>(
+        isOutputFormatReadable(format)
+          ? getMetadataCategories(await sharp(await fs.readFile(outputPath)).metadata())
+          : keepIcc ? ['icc'] : []
+      );
+      return {
+        policy,
+        removed: getMetadataCategories(source).filter(category => !kept.has(category))
+      };
+    } catch (error) {
+      throw new Error(`Metadata policy failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Read the embedded ICC profile of a source
+   * @param inputPath - Path to source image
+   * @returns Parsed profile, or null if the source has none
+   */
+  async getColorProfile(inputPath: string): Promise<ColorProfileInfo | null> {
+    try {
+      const { icc } = await sharp(inputPath).metadata();
+      return icc ? readColorProfile(icc) : null;
+    } catch (error) {
+      throw new Error(`Failed to read colour profile: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Record the colour conversion of a source and whether it lost a significant part of its gamut
    * @param inputPath - Path to source image
+   * @param profile - Embedded profile of the source
+   * @param output - Colour space the output was encoded in
+   * @param clipThreshold - Percentage of out-of-gamut pixels that flags clipping
+   * @returns Colour conversion record
+   */
+  private async describeColorConversion(
+    inputPath: string,
+    profile: ColorProfileInfo,
+    output: OutputColorSpace,
+    clipThreshold: number
+  ): Promise<ColorInfo> {
+    // Sources already in the output gamut cannot clip
+    const clippedPercent = profile.gamut === output ? 0 : await measureGamutClipping(inputPath, profile, output);
+
+    return {
+      profile: profile.description,
+      gamut: profile.gamut,
+      output,
+      clippedPercent: Math.round(clippedPercent * 10) / 10,
+      clipped: clippedPercent > clipThreshold
+    };
+  }
+
+  /**
+   * Create Sharp instance with error handling for corrupted files
+   * @param input - Path to source image, or its pixels already converted to Display P3
    * @param format - Detected image format
+   * @param animated - Load all frames of a multi-frame source
+   * @param ignoreIcc - Keep pixels in the embedded profile's colour space instead of converting to sRGB
    * @returns Sharp instance
    */
-  private async createSharpInstance(inputPath: string, format: string): Promise<sharp.Sharp> {
+  private async createSharpInstance(
+    input: string | Buffer,
+    format: string,
+    animated: boolean = false,
+    ignoreIcc: boolean = false
+  ): Promise<sharp.Sharp> {
     try {
-      const sharpInstance = sharp(inputPath);
+      const sharpInstance = sharp(input, { animated, ignoreIcc });
       
       // Test if the image can be read by attempting to get metadata
       await sharpInstance.metadata();
@@ -339,43 +763,217 @@ export class WebPConverter {
   }
 
   /**
-   * Apply dimension constraints while preserving aspect ratio
+   * Apply dimension constraints with the requested fit mode and upscaling limit
    * @param sharpInstance - Sharp instance
    * @param metadata - Image metadata
-   * @param maxWidth - Maximum allowed width
-   * @param maxHeight - Maximum allowed height
+   * @param maxWidth - Box width
+   * @param maxHeight - Box height
+   * @param resize - Fit mode, padding, kernel and upscaling limit
    * @returns Sharp instance with dimension constraints applied
    */
   private async applyDimensionConstraints(
     sharpInstance: sharp.Sharp,
     metadata: ImageMetadata,
     maxWidth: number,
-    maxHeight: number
+    maxHeight: number,
+    resize: ResizeOptions = {}
   ): Promise<sharp.Sharp> {
-    const { width, height } = metadata.dimensions;
-    
+    // Preprocessing already turned the image upright, so the box applies to the displayed size
+    const { width, height } = await this.getDisplaySize(metadata.originalPath);
+    const fit = resize.fit || 'inside';
+    const { width: newWidth, height: newHeight, scale } = this.getOutputDimensions(width, height, maxWidth, maxHeight, resize);
+
     // Check if resizing is needed
-    if (width <= maxWidth && height <= maxHeight) {
+    if (newWidth === width && newHeight === height) {
       return sharpInstance; // No resizing needed
     }
 
-    // Calculate scaling factor to fit within constraints while preserving aspect ratio
+    console.log(`Resizing ${metadata.filename}: ${width}x${height} → ${newWidth}x${newHeight} (${fit}, ${(scale * 100).toFixed(1)}% scale)`);
+
+    // Dimensions are already final, so inside and outside resize exactly; Sharp resizes each frame of an animated instance
+    return sharpInstance.resize(newWidth, newHeight, {
+      fit: fit === 'cover' || fit === 'contain' ? fit : 'fill',
+      background: resize.background || { r: 0, g: 0, b: 0, alpha: 0 },
+      kernel: resize.kernel || sharp.kernel.lanczos3,
+      fastShrinkOnLoad: true          // Optimize for shrinking
+    });
+  }
+
+  /**
+   * Output dimensions for a fit mode within the dimension constraints
+   * @param width - Source width
+   * @param height - Source height
+   * @param maxWidth - Maximum allowed width
+   * @param maxHeight - Maximum allowed height
+   * @param resize - Fit mode and upscaling limit
+   * @returns Output width and height, and the scale applied to the source
+   */
+  private getOutputDimensions(
+    width: number,
+    height: number,
+    maxWidth: number,
+    maxHeight: number,
+    resize: ResizeOptions = {}
+  ): { width: number; height: number; scale: number } {
+    const fit = resize.fit || 'inside';
+    const maxUpscale = resize.maxUpscale || 1;
+
+    // Scale that fits the image inside the box (inside, contain) or covers it (outside, cover)
     const widthScale = maxWidth / width;
     const heightScale = maxHeight / height;
-    const scale = Math.min(widthScale, heightScale);
+    const fitScale = fit === 'outside' || fit === 'cover'
+      ? Math.max(widthScale, heightScale)
+      : Math.min(widthScale, heightScale);
+    const scale = Math.min(fitScale, maxUpscale);
+
+    // When enlargement is capped, box-sized outputs shrink with the image
+    if (fit === 'fill') {
+      const newWidth = Math.round(Math.min(maxWidth, width * maxUpscale));
+      const newHeight = Math.round(Math.min(maxHeight, height * maxUpscale));
+      return { width: newWidth, height: newHeight, scale: Math.max(newWidth / width, newHeight / height) };
+    }
+    if (fit === 'cover' || fit === 'contain') {
+      return { width: Math.round(maxWidth * scale / fitScale), height: Math.round(maxHeight * scale / fitScale), scale };
+    }
+    return { width: Math.round(width * scale), height: Math.round(height * scale), scale };
+  }
+
+  /**
+   * Region and output size of an aspect-ratio crop within the dimension constraints
+   * @param sourceWidth - Source width as displayed
+   * @param sourceHeight - Source height as displayed
+   * @param maxWidth - Maximum allowed width
+   * @param maxHeight - Maximum allowed height
+   * @param aspectRatio - Target aspect ratio, e.g. '16:9'
+   * @param resize - Upscaling limit
+   * @returns Region size, output size and the scale applied to the region
+   */
+  private getCropGeometry(
+    sourceWidth: number,
+    sourceHeight: number,
+    maxWidth: number,
+    maxHeight: number,
+    aspectRatio: string,
+    resize: ResizeOptions = {}
+  ): { regionWidth: number; regionHeight: number; outputWidth: number; outputHeight: number; scale: number } {
+    // Largest region of the target aspect ratio that fits the source
+    const ratio = parseAspectRatio(aspectRatio);
+    const regionWidth = Math.min(sourceWidth, Math.round(sourceHeight * ratio));
+    const regionHeight = Math.min(sourceHeight, Math.round(regionWidth / ratio));
+
+    // Scale the region to the dimension constraints, enlarging no further than allowed
+    const scale = Math.min(resize.maxUpscale || 1, maxWidth / regionWidth, maxHeight / regionHeight);
+    return {
+      regionWidth,
+      regionHeight,
+      outputWidth: Math.max(1, Math.round(regionWidth * scale)),
+      outputHeight: Math.max(1, Math.round(regionHeight * scale)),
+      scale
+    };
+  }
 
-    // Calculate new dimensions
-    const newWidth = Math.round(width * scale);
-    const newHeight = Math.round(height * scale);
+  /**
+   * Output size of a rendering and the scale it applies to the source, as the crop or dimension constraints would size it
+   * @param inputPath - Path to source image
+   * @param maxWidth - Maximum allowed width
+   * @param maxHeight - Maximum allowed height
+   * @param options - Crop and resize options of the rendering
+   * @returns Output width and height, and output pixels per source pixel along each edge
+   */
+  async getRenderSize(
+    inputPath: string,
+    maxWidth: number,
+    maxHeight: number,
+    options: Pick<ConversionOptions, 'crop' | 'resize'> = {}
+  ): Promise<{ width: number; height: number; scale: number }> {
+    const { width, height } = await this.getDisplaySize(inputPath);
+    if (options.crop) {
+      const geometry = this.getCropGeometry(width, height, maxWidth, maxHeight, options.crop.aspectRatio, options.resize);
+      return { width: geometry.outputWidth, height: geometry.outputHeight, scale: geometry.scale };
+    }
+    return this.getOutputDimensions(width, height, maxWidth, maxHeight, options.resize);
+  }
 
-    console.log(`Resizing ${metadata.filename}: ${width}x${height} → ${newWidth}x${newHeight} (${(scale * 100).toFixed(1)}% scale)`);
+  /**
+   * Size of a source as displayed, with EXIF orientations 5-8 swapping width and height, and of a DNG's raw image
+   * @param inputPath - Path to source image
+   * @returns Displayed width and height
+   */
+  private async getDisplaySize(inputPath: string): Promise<{ width: number; height: number }> {
+    // DNGs are developed from their raw image, which IFD0 often only carries as a thumbnail
+    if (await this.formatDetector.detectFormat(inputPath) === 'dng') {
+      const rawSize = await readDngRawSize(inputPath);
+      if (rawSize) {
+        return rawSize;
+      }
+    }
 
-    // Apply resize with high-quality settings
-    return sharpInstance.resize(newWidth, newHeight, {
-      kernel: sharp.kernel.lanczos3,  // High-quality resampling
-      withoutEnlargement: true,       // Never enlarge images
-      fastShrinkOnLoad: true          // Optimize for shrinking
-    });
+    const { width = 0, height = 0, orientation = 1 } = await sharp(inputPath).metadata();
+    return orientation >= 5 ? { width: height, height: width } : { width, height };
+  }
+
+  /**
+   * Crop to an aspect ratio and scale the region down to the dimension constraints
+   * @param sharpInstance - Preprocessed Sharp instance
+   * @param inputPath - Path to source image
+   * @param maxWidth - Maximum allowed width
+   * @param maxHeight - Maximum allowed height
+   * @param crop - Aspect ratio, strategy and optional focal point
+   * @param resize - Kernel and upscaling limit
+   * @returns Cropping Sharp instance, and a callback resolving the crop record from the encoder's output info
+   */
+  private async applyCrop(
+    sharpInstance: sharp.Sharp,
+    inputPath: string,
+    maxWidth: number,
+    maxHeight: number,
+    crop: CropOptions,
+    resize: ResizeOptions = {}
+  ): Promise<{ image: sharp.Sharp; complete: (info: sharp.OutputInfo) => CropInfo }> {
+    // Crop regions refer to the image as displayed, so apply EXIF orientation first
+    const { width: sourceWidth, height: sourceHeight } = await this.getDisplaySize(inputPath);
+    const oriented = sharpInstance.rotate();
+
+    const { regionWidth, regionHeight, outputWidth, outputHeight } = this.getCropGeometry(
+      sourceWidth, sourceHeight, maxWidth, maxHeight, crop.aspectRatio, resize
+    );
+    const kernel = resize.kernel || sharp.kernel.lanczos3;
+    const record = { preset: crop.preset, aspectRatio: crop.aspectRatio };
+
+    if (crop.focalPoint) {
+      // Centre the region on the focal point, shifted back inside the image at the edges
+      const { x, y } = crop.focalPoint;
+      const region = {
+        left: Math.min(sourceWidth - regionWidth, Math.max(0, Math.round(x * sourceWidth - regionWidth / 2))),
+        top: Math.min(sourceHeight - regionHeight, Math.max(0, Math.round(y * sourceHeight - regionHeight / 2))),
+        width: regionWidth,
+        height: regionHeight
+      };
+      return {
+        image: oriented.extract(region).resize(outputWidth, outputHeight, { kernel }),
+        complete: () => ({ ...record, strategy: 'focal_point', focalPoint: crop.focalPoint, region })
+      };
+    }
+
+    // Sharp scales the source to cover the output size, then picks the region and reports its offset at that scale
+    const coverScale = Math.max(outputWidth / sourceWidth, outputHeight / sourceHeight);
+    return {
+      image: oriented.resize(outputWidth, outputHeight, {
+        fit: 'cover',
+        position: sharp.strategy[crop.strategy],
+        kernel
+      }),
+      complete: (info) => ({
+        ...record,
+        strategy: crop.strategy,
+        region: {
+          left: Math.min(sourceWidth - regionWidth, Math.round(Math.abs(info.cropOffsetLeft || 0) / coverScale)),
+          top: Math.min(sourceHeight - regionHeight, Math.round(Math.abs(info.cropOffsetTop || 0) / coverScale)),
+          width: regionWidth,
+          height: regionHeight
+        }
+      })
+    };
   }
 
   /**
@@ -383,14 +981,17 @@ export class WebPConverter {
    * @param sharpInstance - Sharp instance
    * @param format - Source image format
    * @param metadata - Image metadata
-   * @returns Preprocessed Sharp instance
+   * @param develop - DNG development settings
+   * @returns Preprocessed Sharp instance, and the development record for DNG sources
    */
   private async applyPreprocessing(
     sharpInstance: sharp.Sharp, 
     format: string, 
-    metadata: ImageMetadata
-  ): Promise<sharp.Sharp> {
+    metadata: ImageMetadata,
+    develop: DngDevelopSettings = DEFAULT_CONFIG.dng
+  ): Promise<{ image: sharp.Sharp; development?: DngDevelopment }> {
     let processed = sharpInstance;
+    let development: DngDevelopment | undefined;
 
     switch (format.toLowerCase()) {
       case 'jpeg':
@@ -406,11 +1007,21 @@ export class WebPConverter {
           .png({ compressionLevel: 6, adaptiveFiltering: true });
         break;
 
-      case 'dng':
-        // DNG/RAW preprocessing: apply basic tone mapping and color correction
-        processed = processed
-          .gamma(2.2) // Apply standard gamma correction
-          .normalize(); // Normalize contrast and brightness
+      case 'dng': {
+        // DNG/RAW preprocessing: white balance, exposure, highlight recovery and tone curve on 16-bit data
+        const developed = await developDng(metadata.originalPath, develop);
+        processed = developed.image;
+        development = developed.development;
+        break;
+      }
+
+      case 'gif':
+        // GIF preprocessing: none, palette frames are decoded to full colour by Sharp
+        break;
+
+      case 'webp':
+        // WebP preprocessing: decode only and honour EXIF orientation, the pixels are re-analysed and re-encoded
+        processed = processed.rotate();
         break;
 
       default:
@@ -433,15 +1044,15 @@ export class WebPConverter {
       });
     }
 
-    return processed;
+    return { image: processed, development };
   }
 
   /**
-   * Get image metadata for preprocessing decisions
+   * Get image metadata for preprocessing and sizing decisions
    * @param imagePath - Path to image file
    * @returns Image metadata
    */
-  private async getImageMetadata(imagePath: string): Promise<ImageMetadata> {
+  async getImageMetadata(imagePath: string): Promise<ImageMetadata> {
     try {
       const sharpInstance = sharp(imagePath);
       const metadata = await sharpInstance.metadata();
@@ -450,6 +1061,14 @@ export class WebPConverter {
       // Determine content type based on image characteristics
       const contentType = this.determineContentType(metadata);
 
+      // Multi-frame sources report per-frame dimensions plus frame count and timing
+      const frameCount = metadata.pages || 1;
+      const animation = frameCount > 1 ? {
+        frameCount,
+        loop: metadata.loop ?? 0,
+        delay: metadata.delay || []
+      } : undefined;
+
       return {
         originalPath: imagePath,
         filename: path.basename(imagePath),
@@ -459,7 +1078,8 @@ export class WebPConverter {
           height: metadata.height || 0
         },
         fileSize: stats.size,
-        contentType
+        contentType,
+        ...(animation ? { animation } : {})
       };
     } catch (error) {
       throw new Error(`Failed to get image metadata: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -491,6 +1111,22 @@ export class WebPConverter {
     return 'mixed';
   }
 
+  /**
+   * Map a detected content type onto a default encoder tuning profile
+   * @param contentType - Content type classification
+   * @returns Encoder tuning profile
+   */
+  private getDefaultProfile(contentType: 'photo' | 'graphic' | 'mixed'): EncodingProfile {
+    switch (contentType) {
+      case 'photo':
+        return 'photo';
+      case 'graphic':
+        return 'drawing';
+      default:
+        return 'picture';
+    }
+  }
+
   /**
    * Batch convert multiple images to WebP
    * @param inputPaths - Array of input image paths
@@ -570,6 +1206,16 @@ export class WebPConverter {
         case 'dng':
           estimatedReduction = 0.6; // 60% reduction typical for RAW to WebP
           break;
+        case 'gif':
+          estimatedReduction = 0.5; // 50% reduction typical for animated GIF to WebP
+          break;
+        case 'tiff':
+        case 'bmp':
+          estimatedReduction = 0.9; // 90% reduction typical for uncompressed sources
+          break;
+        case 'heif':
+          estimatedReduction = 0.1; // HEIC is already efficiently compressed
+          break;
         default:
           estimatedReduction = 0.4; // Default 40% reduction
       }
@@ -0,0 +1,469 @@
+/**
+ * Metadata retention policies applied to encoded outputs
+ */
+
+import * as fs from 'fs-extra';
+import sharp from 'sharp';
+import { MetadataCategory, MetadataPolicy, OutputFormat } from '../types';
+
+// EXIF tags that only describe the file layout, not the picture or its owner
+const STRUCTURAL_TAGS = new Set([
+  0x0112,   // Orientation
+  0x011a,   // XResolution
+  0x011b,   // YResolution
+  0x0128    // ResolutionUnit
+]);
+
+const TAG_ARTIST = 0x013b;
+const TAG_COPYRIGHT = 0x8298;
+const TAG_GPS_IFD = 0x8825;
+
+// Byte size of one value of each TIFF field type (index = type)
+const TYPE_SIZES = [0, 1, 1, 2, 4, 8, 1, 1, 2, 4, 8, 4, 8];
+
+const EXIF_HEADER = Buffer.from('Exif\0\0', 'latin1');
+const XMP_HEADER = Buffer.from('http://ns.adobe.com/xap/1.0/\0', 'latin1');
+const ICC_HEADER = Buffer.from('ICC_PROFILE\0', 'latin1');
+const IPTC_HEADER = Buffer.from('Photoshop 3.0\0', 'latin1');
+
+// VP8X feature flags for metadata chunks
+const VP8X_ICC = 0x20;
+const VP8X_EXIF = 0x08;
+const VP8X_XMP = 0x04;
+
+type MetadataBlock = 'exif' | 'xmp' | 'icc' | 'iptc';
+
+/**
+ * TIFF structure inside an EXIF block, offsets are relative to the TIFF header
+ */
+interface TiffView {
+  buffer: Buffer;
+  base: number;       // Offset of the TIFF header, after an optional 'Exif\0\0' prefix
+  little: boolean;
+}
+
+/**
+ * One IFD entry, fieldOffset points at its 4-byte value/offset field (relative to the TIFF header)
+ */
+interface IfdEntry {
+  tag: number;
+  type: number;
+  count: number;
+  fieldOffset: number;
+}
+
+/**
+ * Check if an output format's container can be rewritten to apply a partial policy
+ * @param format - Output format
+ * @returns True for WebP and JPEG, other formats are stripped completely
+ */
+export function supportsMetadataPolicy(format: OutputFormat): boolean {
+  return format === 'webp' || format === 'jpeg';
+}
+
+/**
+ * List the kinds of metadata present in an image
+ * @param metadata - Sharp metadata of the image
+ * @returns Present metadata categories
+ */
+export function getMetadataCategories(metadata: sharp.Metadata): MetadataCategory[] {
+  const categories = new Set<MetadataCategory>();
+
+  if (metadata.exif) {
+    const tiff = openTiff(metadata.exif);
+    const entries = tiff ? readIfd(tiff, read32(tiff, 4)) : null;
+    for (const entry of entries || []) {
+      if (entry.tag === TAG_GPS_IFD) {
+        categories.add('gps');
+      } else if (entry.tag === TAG_COPYRIGHT || entry.tag === TAG_ARTIST) {
+        categories.add('copyright');
+      } else if (!STRUCTURAL_TAGS.has(entry.tag)) {
+        categories.add('exif');
+      }
+    }
+  }
+  if (metadata.xmp) {
+    categories.add('xmp');
+    if (/GPS(Latitude|Longitude)/.test(metadata.xmp.toString('latin1'))) {
+      categories.add('gps');
+    }
+  }
+  if (metadata.icc) {
+    categories.add('icc');
+  }
+  if (metadata.iptc) {
+    categories.add('iptc');
+  }
+
+  return [...categories];
+}
+
+/**
+ * Rewrite an encoded output so only the metadata its policy allows remains
+ * @param outputPath - Path of the encoded WebP or JPEG
+ * @param format - Output format
+ * @param policy - Metadata retention policy
+ * @param keepIcc - Keep the colour profile even if the policy strips it
+ */
+export async function applyMetadataPolicy(
+  outputPath: string,
+  format: OutputFormat,
+  policy: MetadataPolicy,
+  keepIcc: boolean = false
+): Promise<void> {
+  if (!supportsMetadataPolicy(format)) {
+    return;
+  }
+
+  const data = await fs.readFile(outputPath);
+  const filter = (block: MetadataBlock, payload: Buffer) =>
+    keepIcc && block === 'icc' ? payload : filterMetadataBlock(block, payload, policy);
+  const rewritten = format === 'webp' ? rewriteWebP(data, filter) : rewriteJpeg(data, filter);
+  await fs.writeFile(outputPath, rewritten);
+}
+
+/**
+ * Decide what survives of one metadata block under a policy
+ * @param block - Kind of metadata block
+ * @param payload - Block contents
+ * @param policy - Metadata retention policy
+ * @returns Block contents to keep, or null to drop the block
+ */
+function filterMetadataBlock(block: MetadataBlock, payload: Buffer, policy: MetadataPolicy): Buffer | null {
+  if (policy === 'strip') {
+    return null;
+  }
+
+  switch (block) {
+    case 'icc':
+      return payload;
+    case 'exif':
+      if (policy === 'no_gps') {
+        return removeGps(payload);
+      }
+      return policy === 'copyright' ? keepCopyrightOnly(payload) : null;
+    case 'xmp':
+      // Rights information lives in XMP, location coordinates are removed
+      if (policy === 'no_gps') {
+        return removeXmpGps(payload);
+      }
+      return policy === 'copyright' ? keepXmpRightsOnly(payload) : null;
+    case 'iptc':
+      return policy === 'icc' ? null : payload;
+  }
+}
+
+/**
+ * Filter the metadata chunks of a WebP container and update its feature flags
+ * @param data - WebP file contents
+ * @param filter - Decides what survives of each metadata chunk
+ * @returns Rewritten WebP file
+ */
+function rewriteWebP(data: Buffer, filter: (block: MetadataBlock, payload: Buffer) => Buffer | null): Buffer {
+  if (data.toString('ascii', 0, 4) !== 'RIFF' || data.toString('ascii', 8, 12) !== 'WEBP') {
+    throw new Error('Not a WebP file');
+  }
+
+  const blocks: Record<string, MetadataBlock> = { ICCP: 'icc', EXIF: 'exif', 'XMP ': 'xmp' };
+  const chunks: Array<{ fourcc: string; payload: Buffer }> = [];
+  let offset = 12;
+  while (offset + 8 <= data.length) {
+    const fourcc = data.toString('ascii', offset, offset + 4);
+    const size = data.readUInt32LE(offset + 4);
+    const payload = data.subarray(offset + 8, offset + 8 + size);
+    offset += 8 + size + (size & 1);
+
+    const block = blocks[fourcc];
+    const kept = block ? filter(block, payload) : payload;
+    if (kept) {
+      chunks.push({ fourcc, payload: kept });
+    }
+  }
+
+  // The extended header announces which metadata chunks follow
+  const vp8x = chunks.find(chunk => chunk.fourcc === 'VP8X');
+  if (vp8x) {
+    const present = new Set(chunks.map(chunk => chunk.fourcc));
+    vp8x.payload = Buffer.from(vp8x.payload);
+    vp8x.payload[0] = (vp8x.payload[0] & ~(VP8X_ICC | VP8X_EXIF | VP8X_XMP)) |
+      (present.has('ICCP') ? VP8X_ICC : 0) |
+      (present.has('EXIF') ? VP8X_EXIF : 0) |
+      (present.has('XMP ') ? VP8X_XMP : 0);
+  }
+
+  const parts: Buffer[] = [];
+  for (const { fourcc, payload } of chunks) {
+    const header = Buffer.alloc(8);
+    header.write(fourcc, 0, 'ascii');
+    header.writeUInt32LE(payload.length, 4);
+    parts.push(header, payload);
+    if (payload.length & 1) {
+      parts.push(Buffer.alloc(1));
+    }
+  }
+
+  const body = Buffer.concat(parts);
+  const riff = Buffer.alloc(12);
+  riff.write('RIFF', 0, 'ascii');
+  riff.writeUInt32LE(body.length + 4, 4);
+  riff.write('WEBP', 8, 'ascii');
+  return Buffer.concat([riff, body]);
+}
+
+/**
+ * Filter the metadata segments of a JPEG file, leaving the image data untouched
+ * @param data - JPEG file contents
+ * @param filter - Decides what survives of each metadata segment
+ * @returns Rewritten JPEG file
+ */
+function rewriteJpeg(data: Buffer, filter: (block: MetadataBlock, payload: Buffer) => Buffer | null): Buffer {
+  if (data[0] !== 0xff || data[1] !== 0xd8) {
+    throw new Error('Not a JPEG file');
+  }
+
+  const parts: Buffer[] = [data.subarray(0, 2)];
+  let offset = 2;
+  while (offset + 4 <= data.length && data[offset] === 0xff) {
+    const marker = data[offset + 1];
+
+    // Entropy-coded data follows the start of scan, copy the rest as is
+    if (marker === 0xda || marker === 0xd9) {
+      break;
+    }
+
+    const length = data.readUInt16BE(offset + 2);
+    const segment = data.subarray(offset, offset + 2 + length);
+    const payload = segment.subarray(4);
+    offset += 2 + length;
+
+    const block = identifyJpegSegment(marker, payload);
+    if (!block) {
+      parts.push(segment);
+      continue;
+    }
+
+    const kept = filter(block, payload);
+    if (kept) {
+      const header = Buffer.from([0xff, marker, 0, 0]);
+      header.writeUInt16BE(kept.length + 2, 2);
+      parts.push(header, kept);
+    }
+  }
+
+  parts.push(data.subarray(offset));
+  return Buffer.concat(parts);
+}
+
+/**
+ * Identify the metadata carried by a JPEG application segment
+ * @param marker - Segment marker byte
+ * @param payload - Segment contents after the length field
+ * @returns Metadata block kind, or null for other segments
+ */
+function identifyJpegSegment(marker: number, payload: Buffer): MetadataBlock | null {
+  const startsWith = (header: Buffer) => payload.subarray(0, header.length).equals(header);
+  if (marker === 0xe1 && startsWith(EXIF_HEADER)) {
+    return 'exif';
+  }
+  if (marker === 0xe1 && startsWith(XMP_HEADER)) {
+    return 'xmp';
+  }
+  if (marker === 0xe2 && startsWith(ICC_HEADER)) {
+    return 'icc';
+  }
+  if (marker === 0xed && startsWith(IPTC_HEADER)) {
+    return 'iptc';
+  }
+  return null;
+}
+
+/**
+ * Remove the GPS IFD from an EXIF block, zeroing its data so no coordinates remain in the file
+ * @param exif - EXIF block, with or without the 'Exif\0\0' prefix
+ * @returns EXIF block without location data
+ */
+function removeGps(exif: Buffer): Buffer | null {
+  const buffer = Buffer.from(exif);
+  const tiff = openTiff(buffer);
+  if (!tiff) {
+    return null;
+  }
+
+  const ifd0 = read32(tiff, 4);
+  const entries = readIfd(tiff, ifd0);
+  const gpsIndex = entries ? entries.findIndex(entry => entry.tag === TAG_GPS_IFD) : -1;
+  if (!entries || gpsIndex < 0) {
+    return buffer;
+  }
+
+  // Zero the GPS IFD and the values it points to
+  const gpsOffset = read32(tiff, entries[gpsIndex].fieldOffset);
+  const gpsEntries = readIfd(tiff, gpsOffset);
+  if (gpsEntries) {
+    for (const entry of gpsEntries) {
+      const size = (TYPE_SIZES[entry.type] || 0) * entry.count;
+      const valueOffset = read32(tiff, entry.fieldOffset);
+      if (size > 4 && tiff.base + valueOffset + size <= buffer.length) {
+        buffer.fill(0, tiff.base + valueOffset, tiff.base + valueOffset + size);
+      }
+    }
+    buffer.fill(0, tiff.base + gpsOffset, Math.min(buffer.length, tiff.base + gpsOffset + 2 + gpsEntries.length * 12 + 4));
+  }
+
+  // Drop the pointer from IFD0 by moving the later entries and the next-IFD offset up
+  const entryStart = tiff.base + ifd0 + 2 + gpsIndex * 12;
+  const ifdEnd = tiff.base + ifd0 + 2 + entries.length * 12 + 4;
+  buffer.copy(buffer, entryStart, entryStart + 12, ifdEnd);
+  buffer.fill(0, ifdEnd - 12, ifdEnd);
+  write16(tiff, ifd0, entries.length - 1);
+
+  return buffer;
+}
+
+/**
+ * Rebuild an EXIF block holding only the Artist and Copyright tags
+ * @param exif - EXIF block, with or without the 'Exif\0\0' prefix
+ * @returns Minimal EXIF block, or null if the source has no copyright information
+ */
+function keepCopyrightOnly(exif: Buffer): Buffer | null {
+  const tiff = openTiff(exif);
+  const entries = tiff ? readIfd(tiff, read32(tiff, 4)) : null;
+  if (!tiff || !entries) {
+    return null;
+  }
+
+  // Copy the ASCII values of the ownership tags, in ascending tag order as TIFF requires
+  const fields = entries
+    .filter(entry => (entry.tag === TAG_ARTIST || entry.tag === TAG_COPYRIGHT) && entry.type === 2)
+    .sort((a, b) => a.tag - b.tag)
+    .map(entry => {
+      const start = tiff.base + (entry.count > 4 ? read32(tiff, entry.fieldOffset) : entry.fieldOffset);
+      return { tag: entry.tag, value: exif.subarray(start, start + entry.count) };
+    });
+  if (fields.length === 0) {
+    return null;
+  }
+
+  // Little-endian TIFF header, one IFD, then the values that do not fit inline
+  const ifdSize = 2 + fields.length * 12 + 4;
+  const dataSize = fields.reduce((sum, field) => sum + (field.value.length > 4 ? field.value.length + (field.value.length & 1) : 0), 0);
+  const output = Buffer.alloc(8 + ifdSize + dataSize);
+  output.write('II', 0, 'latin1');
+  output.writeUInt16LE(42, 2);
+  output.writeUInt32LE(8, 4);
+  output.writeUInt16LE(fields.length, 8);
+
+  let dataOffset = 8 + ifdSize;
+  fields.forEach((field, index) => {
+    const entryOffset = 10 + index * 12;
+    output.writeUInt16LE(field.tag, entryOffset);
+    output.writeUInt16LE(2, entryOffset + 2);
+    output.writeUInt32LE(field.value.length, entryOffset + 4);
+    if (field.value.length <= 4) {
+      field.value.copy(output, entryOffset + 8);
+    } else {
+      output.writeUInt32LE(dataOffset, entryOffset + 8);
+      field.value.copy(output, dataOffset);
+      dataOffset += field.value.length + (field.value.length & 1);
+    }
+  });
+
+  return tiff.base > 0 ? Buffer.concat([EXIF_HEADER, output]) : output;
+}
+
+/**
+ * Remove GPS properties from an XMP packet
+ * @param xmp - XMP block, with or without the JPEG namespace prefix
+ * @returns XMP block without location coordinates
+ */
+function removeXmpGps(xmp: Buffer): Buffer {
+  const text = xmp.toString('latin1')
+    .replace(/\s[\w-]+:GPS\w*="[^"]*"/g, '')
+    .replace(/<([\w-]+:GPS\w*)\b[^>]*\/>/g, '')
+    .replace(/<([\w-]+:GPS\w*)\b[^>]*>[\s\S]*?<\/\1>/g, '');
+  return Buffer.from(text, 'latin1');
+}
+
+/**
+ * Reduce an XMP packet to its creator and rights properties (dc:creator, dc:rights and the xmpRights schema)
+ * @param xmp - XMP block, with or without the JPEG namespace prefix
+ * @returns XMP block holding only those properties, or null if it has none
+ */
+function keepXmpRightsOnly(xmp: Buffer): Buffer | null {
+  const text = xmp.toString('latin1');
+  const prefix = text.startsWith(XMP_HEADER.toString('latin1')) ? XMP_HEADER : Buffer.alloc(0);
+
+  // Properties are written either as attributes of a description or as elements inside it
+  const attributes = [...text.matchAll(/\s(?:dc:(?:creator|rights)|xmpRights:\w+)="[^"]*"/g)].map(match => match[0]);
+  const elements = [...text.matchAll(/<(dc:(?:creator|rights)|xmpRights:\w+)\b[^>]*(?:\/>|>[\s\S]*?<\/\1>)/g)].map(match => match[0]);
+  if (attributes.length === 0 && elements.length === 0) {
+    return null;
+  }
+
+  const packet = '<?xpacket begin="" id="W5M0MpCehiHzreSzNTczkc9d"?>' +
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">' +
+    '<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:xmpRights="http://ns.adobe.com/xap/1.0/rights/"' +
+    `${attributes.join('')}>${elements.join('')}</rdf:Description></rdf:RDF></x:xmpmeta><?xpacket end="w"?>`;
+  return Buffer.concat([prefix, Buffer.from(packet, 'latin1')]);
+}
+
+/**
+ * Locate the TIFF header of an EXIF block
+ * @param exif - EXIF block, with or without the 'Exif\0\0' prefix
+ * @returns TIFF view, or null if the block is not valid TIFF
+ */
+function openTiff(exif: Buffer): TiffView | null {
+  const base = exif.subarray(0, EXIF_HEADER.length).equals(EXIF_HEADER) ? EXIF_HEADER.length : 0;
+  if (exif.length < base + 8) {
+    return null;
+  }
+  const order = exif.toString('latin1', base, base + 2);
+  if (order !== 'II' && order !== 'MM') {
+    return null;
+  }
+  return { buffer: exif, base, little: order === 'II' };
+}
+
+/**
+ * Read the entries of an IFD
+ * @param tiff - TIFF view
+ * @param offset - IFD offset relative to the TIFF header
+ * @returns Entries, or null if the IFD lies outside the block
+ */
+function readIfd(tiff: TiffView, offset: number): IfdEntry[] | null {
+  if (offset < 8 || tiff.base + offset + 2 > tiff.buffer.length) {
+    return null;
+  }
+  const count = read16(tiff, offset);
+  if (tiff.base + offset + 2 + count * 12 + 4 > tiff.buffer.length) {
+    return null;
+  }
+
+  const entries: IfdEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    const entryOffset = offset + 2 + i * 12;
+    entries.push({
+      tag: read16(tiff, entryOffset),
+      type: read16(tiff, entryOffset + 2),
+      count: read32(tiff, entryOffset + 4),
+      fieldOffset: entryOffset + 8
+    });
+  }
+  return entries;
+}
+
+function read16(tiff: TiffView, offset: number): number {
+  return tiff.little ? tiff.buffer.readUInt16LE(tiff.base + offset) : tiff.buffer.readUInt16BE(tiff.base + offset);
+}
+
+function read32(tiff: TiffView, offset: number): number {
+  return tiff.little ? tiff.buffer.readUInt32LE(tiff.base + offset) : tiff.buffer.readUInt32BE(tiff.base + offset);
+}
+
+function write16(tiff: TiffView, offset: number, value: number): void {
+  if (tiff.little) {
+    tiff.buffer.writeUInt16LE(value, tiff.base + offset);
+  } else {
+    tiff.buffer.writeUInt16BE(value, tiff.base + offset);
+  }
+}
@@ -0,0 +1,253 @@
+/**
+ * Low-quality image placeholders: blurred WebP data URI, BlurHash and ThumbHash
+ */
+
+import sharp from 'sharp';
+import { ImagePlaceholders } from '../types';
+
+// Longest edge of the blurred WebP placeholder
+const LQIP_SIZE = 16;
+const LQIP_QUALITY = 40;
+const LQIP_BLUR = 1;
+
+// BlurHash components along the longer and shorter edge
+const BLURHASH_COMPONENTS: [number, number] = [4, 3];
+
+// Longest edge the hashes are computed from, ThumbHash accepts at most 100
+const HASH_SIZE = 32;
+
+const BASE83_DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~';
+
+/**
+ * Generate every placeholder for an image
+ * @param imagePath - Path to the image, normally the primary output so crops and watermarks are reflected
+ * @returns Blurred WebP data URI, BlurHash and base64 ThumbHash
+ */
+export async function generatePlaceholders(imagePath: string): Promise<ImagePlaceholders> {
+  try {
+    const lqip = await sharp(imagePath)
+      .rotate()
+      .resize(LQIP_SIZE, LQIP_SIZE, { fit: 'inside' })
+      .blur(LQIP_BLUR)
+      .webp({ quality: LQIP_QUALITY })
+      .toBuffer();
+
+    const { data, info } = await sharp(imagePath)
+      .rotate()
+      .resize(HASH_SIZE, HASH_SIZE, { fit: 'inside' })
+      .ensureAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    return {
+      lqip: `data:image/webp;base64,${lqip.toString('base64')}`,
+      blurhash: encodeBlurHash(data, info.width, info.height),
+      thumbhash: Buffer.from(encodeThumbHash(data, info.width, info.height)).toString('base64')
+    };
+  } catch (error) {
+    throw new Error(`Placeholder generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Encode RGBA pixels as a BlurHash
+ * @param rgba - 8-bit RGBA pixels
+ * @param width - Width in pixels
+ * @param height - Height in pixels
+ * @returns BlurHash string
+ */
+export function encodeBlurHash(rgba: Buffer, width: number, height: number): string {
+  const [componentsX, componentsY] = width >= height ? BLURHASH_COMPONENTS : [BLURHASH_COMPONENTS[1], BLURHASH_COMPONENTS[0]];
+
+  const linear = new Float64Array(256);
+  for (let value = 0; value < 256; value++) {
+    linear[value] = srgbToLinear(value);
+  }
+
+  // Cosine transform of the linear-light image into the requested components
+  const factors: Array<[number, number, number]> = [];
+  for (let j = 0; j < componentsY; j++) {
+    for (let i = 0; i < componentsX; i++) {
+      const normalisation = i === 0 && j === 0 ? 1 : 2;
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      for (let y = 0; y < height; y++) {
+        const basisY = Math.cos(Math.PI * j * y / height);
+        for (let x = 0; x < width; x++) {
+          const basis = normalisation * Math.cos(Math.PI * i * x / width) * basisY;
+          const offset = (y * width + x) * 4;
+          r += basis * linear[rgba[offset]];
+          g += basis * linear[rgba[offset + 1]];
+          b += basis * linear[rgba[offset + 2]];
+        }
+      }
+      const scale = 1 / (width * height);
+      factors.push([r * scale, g * scale, b * scale]);
+    }
+  }
+
+  const [dc, ...ac] = factors;
+  let hash = encodeBase83((componentsX - 1) + (componentsY - 1) * 9, 1);
+
+  let maximumValue = 1;
+  if (ac.length > 0) {
+    const actualMaximum = Math.max(...ac.map(factor => Math.max(...factor.map(Math.abs))));
+    const quantisedMaximum = Math.max(0, Math.min(82, Math.floor(actualMaximum * 166 - 0.5)));
+    maximumValue = (quantisedMaximum + 1) / 166;
+    hash += encodeBase83(quantisedMaximum, 1);
+  } else {
+    hash += encodeBase83(0, 1);
+  }
+
+  hash += encodeBase83((linearToSrgb(dc[0]) << 16) + (linearToSrgb(dc[1]) << 8) + linearToSrgb(dc[2]), 4);
+  for (const factor of ac) {
+    const [r, g, b] = factor.map(value =>
+      Math.max(0, Math.min(18, Math.floor(signPow(value / maximumValue, 0.5) * 9 + 9.5)))
+    );
+    hash += encodeBase83(r * 19 * 19 + g * 19 + b, 2);
+  }
+  return hash;
+}
+
+/**
+ * Encode RGBA pixels as a ThumbHash
+ * @param rgba - 8-bit RGBA pixels, at most 100x100
+ * @param width - Width in pixels
+ * @param height - Height in pixels
+ * @returns ThumbHash bytes
+ */
+export function encodeThumbHash(rgba: Buffer, width: number, height: number): Uint8Array {
+  if (width > 100 || height > 100) {
+    throw new Error(`ThumbHash input ${width}x${height} does not fit in 100x100`);
+  }
+  const pixelCount = width * height;
+
+  // Average colour, weighted by alpha
+  let averageR = 0;
+  let averageG = 0;
+  let averageB = 0;
+  let averageA = 0;
+  for (let i = 0; i < pixelCount; i++) {
+    const alpha = rgba[i * 4 + 3] / 255;
+    averageR += alpha / 255 * rgba[i * 4];
+    averageG += alpha / 255 * rgba[i * 4 + 1];
+    averageB += alpha / 255 * rgba[i * 4 + 2];
+    averageA += alpha;
+  }
+  if (averageA > 0) {
+    averageR /= averageA;
+    averageG /= averageA;
+    averageB /= averageA;
+  }
+
+  // Fewer luminance components leave room for the alpha channel
+  const hasAlpha = averageA < pixelCount;
+  const luminanceLimit = hasAlpha ? 5 : 7;
+  const lx = Math.max(1, Math.round(luminanceLimit * width / Math.max(width, height)));
+  const ly = Math.max(1, Math.round(luminanceLimit * height / Math.max(width, height)));
+
+  // Luminance, yellow-blue, red-green and alpha, composited over the average colour
+  const l = new Float64Array(pixelCount);
+  const p = new Float64Array(pixelCount);
+  const q = new Float64Array(pixelCount);
+  const a = new Float64Array(pixelCount);
+  for (let i = 0; i < pixelCount; i++) {
+    const alpha = rgba[i * 4 + 3] / 255;
+    const r = averageR * (1 - alpha) + alpha / 255 * rgba[i * 4];
+    const g = averageG * (1 - alpha) + alpha / 255 * rgba[i * 4 + 1];
+    const b = averageB * (1 - alpha) + alpha / 255 * rgba[i * 4 + 2];
+    l[i] = (r + g + b) / 3;
+    p[i] = (r + g) / 2 - b;
+    q[i] = r - g;
+    a[i] = alpha;
+  }
+
+  // Cosine transform into a constant term and varying terms normalised to 0..1
+  const encodeChannel = (channel: Float64Array, nx: number, ny: number): { dc: number; ac: number[]; scale: number } => {
+    let dc = 0;
+    let scale = 0;
+    const ac: number[] = [];
+    const fx = new Float64Array(width);
+    for (let cy = 0; cy < ny; cy++) {
+      for (let cx = 0; cx * ny < nx * (ny - cy); cx++) {
+        let f = 0;
+        for (let x = 0; x < width; x++) {
+          fx[x] = Math.cos(Math.PI / width * cx * (x + 0.5));
+        }
+        for (let y = 0; y < height; y++) {
+          const fy = Math.cos(Math.PI / height * cy * (y + 0.5));
+          for (let x = 0; x < width; x++) {
+            f += channel[x + y * width] * fx[x] * fy;
+          }
+        }
+        f /= pixelCount;
+        if (cx > 0 || cy > 0) {
+          ac.push(f);
+          scale = Math.max(scale, Math.abs(f));
+        } else {
+          dc = f;
+        }
+      }
+    }
+    return { dc, ac: scale > 0 ? ac.map(f => 0.5 + 0.5 / scale * f) : ac, scale };
+  };
+
+  const luminance = encodeChannel(l, Math.max(3, lx), Math.max(3, ly));
+  const yellowBlue = encodeChannel(p, 3, 3);
+  const redGreen = encodeChannel(q, 3, 3);
+  const alphaChannel = hasAlpha ? encodeChannel(a, 5, 5) : null;
+
+  // Header with the constant terms and scales
+  const isLandscape = width > height;
+  const header24 = Math.round(63 * luminance.dc) |
+    (Math.round(31.5 + 31.5 * yellowBlue.dc) << 6) |
+    (Math.round(31.5 + 31.5 * redGreen.dc) << 12) |
+    (Math.round(31 * luminance.scale) << 18) |
+    ((hasAlpha ? 1 : 0) << 23);
+  const header16 = (isLandscape ? ly : lx) |
+    (Math.round(63 * yellowBlue.scale) << 3) |
+    (Math.round(63 * redGreen.scale) << 9) |
+    ((isLandscape ? 1 : 0) << 15);
+  const hash = [header24 & 255, (header24 >> 8) & 255, header24 >> 16, header16 & 255, header16 >> 8];
+  if (alphaChannel) {
+    hash.push(Math.round(15 * alphaChannel.dc) | (Math.round(15 * alphaChannel.scale) << 4));
+  }
+
+  // Varying terms packed as 4-bit values, two per byte
+  const acStart = hash.length;
+  const channels = alphaChannel ? [luminance, yellowBlue, redGreen, alphaChannel] : [luminance, yellowBlue, redGreen];
+  let acIndex = 0;
+  for (const channel of channels) {
+    for (const f of channel.ac) {
+      const index = acStart + (acIndex >> 1);
+      hash[index] = (hash[index] || 0) | (Math.round(15 * f) << ((acIndex & 1) << 2));
+      acIndex++;
+    }
+  }
+  return new Uint8Array(hash);
+}
+
+function encodeBase83(value: number, length: number): string {
+  let result = '';
+  for (let i = 1; i <= length; i++) {
+    result += BASE83_DIGITS[Math.floor(value / Math.pow(83, length - i)) % 83];
+  }
+  return result;
+}
+
+function srgbToLinear(value: number): number {
+  const v = value / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+}
+
+function linearToSrgb(value: number): number {
+  const v = Math.max(0, Math.min(1, value));
+  return v <= 0.0031308
+    ? Math.trunc(v * 12.92 * 255 + 0.5)
+    : Math.trunc((1.055 * Math.pow(v, 1 / 2.4) - 0.055) * 255 + 0.5);
+}
+
+function signPow(value: number, exponent: number): number {
+  return Math.sign(value) * Math.pow(Math.abs(value), exponent);
+}
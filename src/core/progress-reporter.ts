@@ -351,10 +351,65 @@ export class ProgressReporter extends EventEmitter {
       totalSizeReduction,
       averageCompressionRatio,
       processingTime: totalProcessingTime,
-      results: this.results
+      results: this.results,
+      formatTotals: this.calculateFormatTotals(successfulResults),
+      skipReasons: this.calculateSkipReasons(),
+      animationTotals: this.calculateAnimationTotals(successfulResults)
     };
   }
 
+  /**
+   * Count skipped results per skip reason
+   * @returns Number of skipped images per reason
+   */
+  private calculateSkipReasons(): ProcessingReport['skipReasons'] {
+    const reasons: NonNullable<ProcessingReport['skipReasons']> = {};
+
+    for (const result of this.results) {
+      if (result.status !== 'skipped' || !result.skipReason) continue;
+      reasons[result.skipReason] = (reasons[result.skipReason] || 0) + 1;
+    }
+
+    return reasons;
+  }
+
+  /**
+   * Total frame counts and savings of successful animated conversions
+   * @param successfulResults - Successful optimization results
+   * @returns Animated image count, frame count and size reduction for the run
+   */
+  private calculateAnimationTotals(successfulResults: OptimizationResult[]): ProcessingReport['animationTotals'] {
+    const animatedResults = successfulResults.filter(result => result.animation);
+
+    return {
+      animatedImages: animatedResults.length,
+      totalFrames: animatedResults.reduce((sum, result) => sum + result.animation!.frameCount, 0),
+      totalSizeReduction: animatedResults.reduce((sum, result) => sum + result.animation!.bytesSaved, 0)
+    };
+  }
+
+  /**
+   * Total the encoded variants of successful results per output format
+   * @param successfulResults - Successful optimization results
+   * @returns Conversion count and total optimized size per format
+   */
+  private calculateFormatTotals(successfulResults: OptimizationResult[]): ProcessingReport['formatTotals'] {
+    const totals: NonNullable<ProcessingReport['formatTotals']> = {};
+
+    for (const result of successfulResults) {
+      for (const variant of result.variants || []) {
+        if (variant.status !== 'success') continue;
+
+        const formatTotal = totals[variant.format] || { conversions: 0, totalOptimizedSize: 0 };
+        formatTotal.conversions++;
+        formatTotal.totalOptimizedSize += variant.optimizedSize;
+        totals[variant.format] = formatTotal;
+      }
+    }
+
+    return totals;
+  }
+
   /**
    * Display final summary in console
    * @param report - Final processing report
@@ -367,7 +422,8 @@ export class ProgressReporter extends EventEmitter {
     console.log(`📊 Total Images: ${report.totalImages}`);
     console.log(`✅ Successful: ${report.successfulConversions}`);
     console.log(`❌ Failed: ${report.failedConversions}`);
-    console.log(`⏭️  Skipped: ${report.totalImages - report.successfulConversions - report.failedConversions}`);
+    const alreadyOptimal = report.skipReasons?.already_optimal || 0;
+    console.log(`⏭️  Skipped: ${report.totalImages - report.successfulConversions - report.failedConversions}${alreadyOptimal > 0 ? ` (${alreadyOptimal} already optimal)` : ''}`);
     
     if (report.totalSizeReduction > 0) {
       const sizeReductionMB = (report.totalSizeReduction / (1024 * 1024)).toFixed(2);
@@ -375,6 +431,20 @@ export class ProgressReporter extends EventEmitter {
       console.log(`📉 Average Compression: ${report.averageCompressionRatio.toFixed(1)}%`);
     }
     
+    const formatTotals = Object.entries(report.formatTotals || {});
+    if (formatTotals.length > 1) {
+      formatTotals.forEach(([format, total]) => {
+        const sizeMB = (total!.totalOptimizedSize / (1024 * 1024)).toFixed(2);
+        console.log(`🗂️  ${format.toUpperCase()}: ${total!.conversions} files, ${sizeMB} MB`);
+      });
+    }
+
+    if (report.animationTotals && report.animationTotals.animatedImages > 0) {
+      const { animatedImages, totalFrames, totalSizeReduction } = report.animationTotals;
+      const savedMB = (totalSizeReduction / (1024 * 1024)).toFixed(2);
+      console.log(`🎞️  Animations: ${animatedImages} (${totalFrames} frames), ${savedMB} MB saved`);
+    }
+    
     const processingTimeSeconds = (report.processingTime / 1000).toFixed(1);
     console.log(`⏱️  Total Time: ${processingTimeSeconds}s`);
     
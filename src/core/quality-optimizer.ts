@@ -4,7 +4,24 @@
 
 import sharp from 'sharp';
 import * as fs from 'fs-extra';
-import { ImageMetadata } from '../types';
+import { EncodingMode, EncodingProfile, ImageColors, ImageMetadata, StructuralSimilarity } from '../types';
+
+// Number of colours in an image's palette
+const PALETTE_SIZE = 5;
+
+// Palette colours closer than this (RGB distance) to an earlier entry are only used to fill the palette up
+const PALETTE_MIN_DISTANCE = 48;
+
+// SSIM window: 11x11 Gaussian with a standard deviation of 1.5 pixels
+const SSIM_WINDOW = 11;
+const SSIM_SIGMA = 1.5;
+
+// SSIM stabilising constants for 8-bit values
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+
+// MS-SSIM weights from the finest to the coarsest scale
+const MS_SSIM_WEIGHTS = [0.0448, 0.2856, 0.3001, 0.2363, 0.1333];
 
 /**
  * Image content analysis for determining optimal compression strategy
@@ -18,13 +35,17 @@ export class ImageContentAnalyzer {
   async analyzeImageContent(imagePath: string): Promise<{
     contentType: 'photo' | 'graphic' | 'mixed';
     compressionStrategy: 'high_quality' | 'balanced' | 'size_optimized';
+    encodingMode: EncodingMode;
+    encodingProfile: EncodingProfile;
     characteristics: {
       colorComplexity: number;
       edgeCount: number;
       hasTransparency: boolean;
       colorDepth: number;
       aspectRatio: number;
+      uniqueColors: number;
     };
+    colors: ImageColors;
   }> {
     try {
       const sharpInstance = sharp(imagePath);
@@ -40,10 +61,22 @@ export class ImageContentAnalyzer {
       // Determine optimal compression strategy
       const compressionStrategy = this.determineCompressionStrategy(contentType, characteristics);
       
+      // Determine lossless, near-lossless or lossy encoding
+      const encodingMode = this.determineEncodingMode(contentType, characteristics);
+      
+      // Determine encoder tuning profile
+      const encodingProfile = this.determineEncodingProfile(contentType, characteristics, metadata);
+      
+      // Dominant and average colour come from the statistics, the palette from a pixel sample
+      const colors = await this.extractColors(sharpInstance, stats);
+
       return {
         contentType,
         compressionStrategy,
-        characteristics
+        encodingMode,
+        encodingProfile,
+        characteristics,
+        colors
       };
     } catch (error) {
       throw new Error(`Failed to analyze image content: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -65,6 +98,7 @@ export class ImageContentAnalyzer {
     hasTransparency: boolean;
     colorDepth: number;
     aspectRatio: number;
+    uniqueColors: number;
   }> {
     const width = metadata.width || 0;
     const height = metadata.height || 0;
@@ -86,15 +120,117 @@ export class ImageContentAnalyzer {
     // Determine effective color depth
     const colorDepth = this.determineColorDepth(metadata, stats);
     
+    // Count distinct colors to detect palette-based artwork
+    const uniqueColors = await this.countUniqueColors(sharpInstance);
+    
     return {
       colorComplexity,
       edgeCount,
       hasTransparency,
       colorDepth,
-      aspectRatio
+      aspectRatio,
+      uniqueColors
     };
   }
 
+  /**
+   * Count distinct RGB colors on a nearest-neighbour sample of the image
+   * @param sharpInstance - Sharp instance of the image
+   * @returns Number of unique colors in the sample (max 65536)
+   */
+  private async countUniqueColors(sharpInstance: sharp.Sharp): Promise<number> {
+    try {
+      // Nearest-neighbour sampling avoids inventing blended colors, greyscale and CMYK sources are sampled as sRGB
+      const { data, info } = await sharpInstance
+        .clone()
+        .resize(256, 256, { fit: 'inside', withoutEnlargement: true, kernel: sharp.kernel.nearest })
+        .removeAlpha()
+        .toColourspace('srgb')
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+      
+      const colors = new Set<number>();
+      for (let i = 0; i + 2 < data.length; i += info.channels) {
+        colors.add((data[i] << 16) | (data[i + 1] << 8) | data[i + 2]);
+      }
+      
+      return colors.size;
+    } catch (error) {
+      // If sampling fails, assume a full-color image
+      return 65536;
+    }
+  }
+
+  /**
+   * Extract the dominant colour, average colour and a palette
+   * @param sharpInstance - Sharp instance of the image
+   * @param stats - Sharp statistics of the image
+   * @returns Colours as CSS hex values
+   */
+  private async extractColors(sharpInstance: sharp.Sharp, stats: sharp.Stats): Promise<ImageColors> {
+    // Greyscale images have a single colour channel, followed by alpha when they have one
+    const [red, green, blue] = stats.channels.length < 3
+      ? [stats.channels[0], stats.channels[0], stats.channels[0]]
+      : stats.channels;
+    const dominant = toHex(stats.dominant.r, stats.dominant.g, stats.dominant.b);
+
+    try {
+      const { data } = await sharpInstance
+        .clone()
+        .resize(64, 64, { fit: 'inside', withoutEnlargement: true })
+        .toColourspace('srgb')
+        .ensureAlpha()
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+
+      // Histogram of 4-bit-per-channel bins, the same binning as Sharp's dominant colour, ignoring transparent pixels.
+      // The average is taken from the same 8-bit sRGB sample, weighted by alpha so transparent pixels do not count
+      const bins = new Map<number, { count: number; r: number; g: number; b: number }>();
+      const sum = { alpha: 0, r: 0, g: 0, b: 0 };
+      for (let i = 0; i + 3 < data.length; i += 4) {
+        sum.alpha += data[i + 3];
+        sum.r += data[i] * data[i + 3];
+        sum.g += data[i + 1] * data[i + 3];
+        sum.b += data[i + 2] * data[i + 3];
+        if (data[i + 3] < 128) {
+          continue;
+        }
+        const key = ((data[i] >> 4) << 8) | ((data[i + 1] >> 4) << 4) | (data[i + 2] >> 4);
+        const bin = bins.get(key) || { count: 0, r: 0, g: 0, b: 0 };
+        bin.count++;
+        bin.r += data[i];
+        bin.g += data[i + 1];
+        bin.b += data[i + 2];
+        bins.set(key, bin);
+      }
+
+      // Most common bins first, near-duplicates only when there are not enough distinct colours
+      const candidates = Array.from(bins.values())
+        .sort((a, b) => b.count - a.count)
+        .map(bin => [bin.r / bin.count, bin.g / bin.count, bin.b / bin.count]);
+      const palette: number[][] = [];
+      for (const color of candidates) {
+        if (palette.length < PALETTE_SIZE && palette.every(chosen => colorDistance(chosen, color) >= PALETTE_MIN_DISTANCE)) {
+          palette.push(color);
+        }
+      }
+      for (const color of candidates) {
+        if (palette.length < PALETTE_SIZE && !palette.includes(color)) {
+          palette.push(color);
+        }
+      }
+
+      const average = sum.alpha > 0
+        ? toHex(sum.r / sum.alpha, sum.g / sum.alpha, sum.b / sum.alpha)
+        : toHex(red.mean, green.mean, blue.mean);
+      return { dominant, average, palette: palette.map(([r, g, b]) => toHex(r, g, b)) };
+    } catch (error) {
+      // Without a sample the average and palette fall back to the statistics
+      const average = toHex(red.mean, green.mean, blue.mean);
+      return { dominant, average, palette: dominant === average ? [dominant] : [dominant, average] };
+    }
+  }
+
   /**
    * Calculate color complexity based on image statistics
    * @param stats - Sharp statistics object
@@ -196,6 +332,69 @@ export class ImageContentAnalyzer {
     return 'mixed';
   }
 
+  /**
+   * Determine encoding mode based on content type and palette size
+   * @param contentType - Determined content type
+   * @param characteristics - Image characteristics
+   * @returns Lossless for palette artwork, near-lossless for flat graphics, lossy otherwise
+   */
+  private determineEncodingMode(
+    contentType: 'photo' | 'graphic' | 'mixed',
+    characteristics: any
+  ): EncodingMode {
+    const { uniqueColors, colorDepth } = characteristics;
+    
+    // Logos, icons and flat UI use a small palette - lossless is both exact and small
+    if (uniqueColors <= 256) {
+      return 'lossless';
+    }
+    
+    // Screenshots and limited-depth graphics keep sharp edges with near-lossless
+    if (contentType === 'graphic' && (uniqueColors <= 4096 || colorDepth <= 6)) {
+      return 'near_lossless';
+    }
+    
+    // Photographic and mixed content compresses best with lossy encoding
+    return 'lossy';
+  }
+
+  /**
+   * Determine encoder tuning profile based on content type and image characteristics
+   * @param contentType - Determined content type
+   * @param characteristics - Image characteristics
+   * @param metadata - Image metadata
+   * @returns Encoder tuning profile
+   */
+  private determineEncodingProfile(
+    contentType: 'photo' | 'graphic' | 'mixed',
+    characteristics: any,
+    metadata: sharp.Metadata
+  ): EncodingProfile {
+    const { colorComplexity, edgeCount, hasTransparency, uniqueColors } = characteristics;
+    const width = metadata.width || 0;
+    const height = metadata.height || 0;
+    
+    switch (contentType) {
+      case 'photo':
+        return 'photo';
+        
+      case 'graphic':
+        // Small images and transparent palette artwork are icons
+        if ((width <= 256 && height <= 256) || (hasTransparency && uniqueColors <= 256)) {
+          return 'icon';
+        }
+        // Sharp edges over few colors are screenshots and text-heavy UI
+        if (edgeCount > 50 && colorComplexity < 50) {
+          return 'text';
+        }
+        return 'drawing';
+        
+      case 'mixed':
+      default:
+        return 'picture';
+    }
+  }
+
   /**
    * Determine optimal compression strategy based on content analysis
    * @param contentType - Determined content type
@@ -268,6 +467,9 @@ export class DynamicQualityCalculator {
     strategy: 'high_quality' | 'balanced' | 'size_optimized';
     reasoning: string;
     contentType: 'photo' | 'graphic' | 'mixed';
+    encodingMode: EncodingMode;
+    encodingProfile: EncodingProfile;
+    colors: ImageColors;
   }> {
     try {
       // Analyze image content
@@ -301,7 +503,10 @@ export class DynamicQualityCalculator {
         quality: finalQuality,
         strategy,
         reasoning,
-        contentType: analysis.contentType
+        contentType: analysis.contentType,
+        encodingMode: analysis.encodingMode,
+        encodingProfile: analysis.encodingProfile,
+        colors: analysis.colors
       };
     } catch (error) {
       throw new Error(`Failed to calculate optimal quality: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -483,6 +688,8 @@ export class DynamicQualityCalculator {
     strategy: 'high_quality' | 'balanced' | 'size_optimized';
     reasoning: string;
     contentType: 'photo' | 'graphic' | 'mixed';
+    encodingMode: EncodingMode;
+    encodingProfile: EncodingProfile;
   }>> {
     const results = [];
     
@@ -500,7 +707,9 @@ export class DynamicQualityCalculator {
           quality: this.minimumQuality,
           strategy: strategy || 'balanced',
           reasoning: `Failed to analyze image, using minimum quality (${this.minimumQuality}%)`,
-          contentType: 'mixed' as const
+          contentType: 'mixed' as const,
+          encodingMode: 'lossy' as const,
+          encodingProfile: 'picture' as const
         });
       }
     }
@@ -544,12 +753,16 @@ export class QualityValidator {
    * @param originalPath - Path to original image
    * @param optimizedPath - Path to optimized image
    * @param targetQuality - Target quality setting used
+   * @param minimumSsim - SSIM the output was encoded to reach; replaces the quality score threshold and loss checks
+   * @param enforceThresholds - Whether quality thresholds apply; false for outputs a byte budget forced below them
    * @returns Promise resolving to validation result
    */
   async validateOutputQuality(
     originalPath: string,
     optimizedPath: string,
-    targetQuality: number
+    targetQuality: number,
+    minimumSsim?: number,
+    enforceThresholds: boolean = true
   ): Promise<{
     isValid: boolean;
     qualityScore: number;
@@ -562,6 +775,7 @@ export class QualityValidator {
       compressionRatio: number;
       qualityLoss: number;
       structuralSimilarity: number;
+      msSsim: number;
     };
   }> {
     try {
@@ -586,20 +800,30 @@ export class QualityValidator {
       const qualityMetrics = await this.calculateQualityMetrics(originalPath, optimizedPath);
       const qualityScore = this.calculateOverallQualityScore(qualityMetrics, targetQuality);
       
-      // Check quality threshold
-      const meetsThreshold = qualityScore >= this.minimumQualityThreshold;
-      if (!meetsThreshold) {
-        issues.push(`Quality score ${qualityScore.toFixed(1)}% below threshold ${this.minimumQualityThreshold}%`);
-      }
-      
-      // Check for excessive quality loss
-      if (qualityMetrics.qualityLoss > 30) {
-        issues.push(`Excessive quality loss: ${qualityMetrics.qualityLoss.toFixed(1)}%`);
-      }
-      
-      // Check structural similarity
-      if (qualityMetrics.structuralSimilarity < 0.8) {
-        issues.push(`Low structural similarity: ${(qualityMetrics.structuralSimilarity * 100).toFixed(1)}%`);
+      // A perceptual target is the quality bar the output was searched for, otherwise check the score threshold and losses
+      let meetsThreshold: boolean;
+      if (!enforceThresholds) {
+        meetsThreshold = true;
+      } else if (minimumSsim !== undefined) {
+        meetsThreshold = qualityMetrics.structuralSimilarity >= minimumSsim;
+        if (!meetsThreshold) {
+          issues.push(`Structural similarity ${qualityMetrics.structuralSimilarity.toFixed(4)} below target ${minimumSsim}`);
+        }
+      } else {
+        meetsThreshold = qualityScore >= this.minimumQualityThreshold;
+        if (!meetsThreshold) {
+          issues.push(`Quality score ${qualityScore.toFixed(1)}% below threshold ${this.minimumQualityThreshold}%`);
+        }
+
+        // Check for excessive quality loss
+        if (qualityMetrics.qualityLoss > 30) {
+          issues.push(`Excessive quality loss: ${qualityMetrics.qualityLoss.toFixed(1)}%`);
+        }
+
+        // Check structural similarity
+        if (qualityMetrics.structuralSimilarity < 0.8) {
+          issues.push(`Low structural similarity: ${(qualityMetrics.structuralSimilarity * 100).toFixed(1)}%`);
+        }
       }
       
       // Validate file integrity
@@ -621,7 +845,8 @@ export class QualityValidator {
           optimizedSize,
           compressionRatio,
           qualityLoss: qualityMetrics.qualityLoss,
-          structuralSimilarity: qualityMetrics.structuralSimilarity
+          structuralSimilarity: qualityMetrics.structuralSimilarity,
+          msSsim: qualityMetrics.msSsim
         }
       };
     } catch (error) {
@@ -636,12 +861,23 @@ export class QualityValidator {
           optimizedSize: 0,
           compressionRatio: 0,
           qualityLoss: 100,
-          structuralSimilarity: 0
+          structuralSimilarity: NaN,    // Not measured
+          msSsim: NaN
         }
       };
     }
   }
 
+  /**
+   * Measure the structural similarity of an optimized image to its original, the score perceptual targets are set in
+   * @param originalPath - Path to original image, ideally rendered with the output's crop, fit and size
+   * @param optimizedPath - Path to optimized image
+   * @returns SSIM and MS-SSIM (0-1)
+   */
+  async measureStructuralSimilarity(originalPath: string, optimizedPath: string): Promise<StructuralSimilarity> {
+    return this.calculateStructuralSimilarity(originalPath, optimizedPath);
+  }
+
   /**
    * Calculate quality metrics by comparing original and optimized images
    * @param originalPath - Path to original image
@@ -654,6 +890,7 @@ export class QualityValidator {
   ): Promise<{
     qualityLoss: number;
     structuralSimilarity: number;
+    msSsim: number;
     colorAccuracy: number;
     sharpnessRetention: number;
   }> {
@@ -669,11 +906,8 @@ export class QualityValidator {
       // Resize optimized image to match original dimensions for comparison
       const resizedOptimized = optimizedImage.resize(originalMeta.width, originalMeta.height);
       
-      // Calculate structural similarity using histogram comparison
-      const structuralSimilarity = await this.calculateStructuralSimilarity(
-        originalImage,
-        resizedOptimized
-      );
+      // Calculate structural similarity pixel by pixel at the output resolution
+      const { ssim: structuralSimilarity, msSsim } = await this.calculateStructuralSimilarity(originalPath, optimizedPath);
       
       // Calculate color accuracy
       const colorAccuracy = await this.calculateColorAccuracy(
@@ -693,46 +927,73 @@ export class QualityValidator {
       return {
         qualityLoss: Math.max(0, qualityLoss),
         structuralSimilarity,
+        msSsim,
         colorAccuracy,
         sharpnessRetention
       };
     } catch (error) {
-      // Return conservative estimates if comparison fails
-      return {
-        qualityLoss: 20, // Assume moderate quality loss
-        structuralSimilarity: 0.8,
-        colorAccuracy: 0.85,
-        sharpnessRetention: 0.8
-      };
+      // No estimate stands in for a failed comparison, a plausible score would pass validation and steer searches
+      throw new Error(`Quality comparison failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Calculate structural similarity between two images using histogram comparison
-   * @param originalImage - Sharp instance of original image
-   * @param optimizedImage - Sharp instance of optimized image
-   * @returns Structural similarity score (0-1)
+   * Calculate windowed SSIM and MS-SSIM on luma, with the original resampled to the optimized image's resolution
+   * so both buffers are aligned pixel for pixel
+   * @param originalPath - Path to original image
+   * @param optimizedPath - Path to optimized image
+   * @returns SSIM and MS-SSIM (0-1)
    */
   private async calculateStructuralSimilarity(
-    originalImage: sharp.Sharp,
-    optimizedImage: sharp.Sharp
-  ): Promise<number> {
+    originalPath: string,
+    optimizedPath: string
+  ): Promise<StructuralSimilarity> {
     try {
-      // Get histograms for both images
-      const originalStats = await originalImage.clone().greyscale().stats();
-      const optimizedStats = await optimizedImage.clone().greyscale().stats();
-      
-      // Compare mean and standard deviation
-      const meanDiff = Math.abs(originalStats.channels[0].mean - optimizedStats.channels[0].mean);
-      const stdevDiff = Math.abs(originalStats.channels[0].stdev - optimizedStats.channels[0].stdev);
-      
-      // Calculate similarity based on statistical differences
-      const meanSimilarity = 1 - (meanDiff / 255);
-      const stdevSimilarity = 1 - (stdevDiff / 128);
-      
-      return (meanSimilarity + stdevSimilarity) / 2;
+      // Transparent areas are compared as they show on a white page
+      const optimized = await sharp(optimizedPath)
+        .rotate()
+        .flatten({ background: '#ffffff' })
+        .greyscale()
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+      const { width, height } = optimized.info;
+      const original = await sharp(originalPath)
+        .rotate()
+        .resize(width, height, { fit: 'fill' })
+        .flatten({ background: '#ffffff' })
+        .greyscale()
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+
+      let x = toLuma(original.data, original.info.channels);
+      let y = toLuma(optimized.data, optimized.info.channels);
+      let scaleWidth = width;
+      let scaleHeight = height;
+
+      // Contrast-structure at each finer scale, full SSIM at the coarsest, halving while the window still fits
+      const scales: Array<{ ssim: number; contrastStructure: number }> = [];
+      for (;;) {
+        scales.push(ssimAtScale(x, y, scaleWidth, scaleHeight));
+        if (scales.length === MS_SSIM_WEIGHTS.length || Math.min(scaleWidth, scaleHeight) / 2 < SSIM_WINDOW) {
+          break;
+        }
+        x = halve(x, scaleWidth, scaleHeight);
+        y = halve(y, scaleWidth, scaleHeight);
+        scaleWidth = Math.floor(scaleWidth / 2);
+        scaleHeight = Math.floor(scaleHeight / 2);
+      }
+
+      // Small images have fewer scales, their weights are renormalised to sum to 1
+      const weights = MS_SSIM_WEIGHTS.slice(0, scales.length);
+      const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+      const msSsim = scales.reduce((product, scale, index) => {
+        const value = index === scales.length - 1 ? scale.ssim : scale.contrastStructure;
+        return product * Math.pow(Math.max(0, value), weights[index] / weightSum);
+      }, 1);
+
+      return { ssim: scales[0].ssim, msSsim };
     } catch (error) {
-      return 0.8; // Default similarity if calculation fails
+      throw new Error(`Structural similarity failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
@@ -988,4 +1249,122 @@ export class QualityValidator {
       maximumSizeIncrease: this.maximumSizeIncrease
     };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * First channel of raw pixels as floating point luma
+ */
+function toLuma(data: Buffer, channels: number): Float32Array {
+  const luma = new Float32Array(data.length / channels);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = data[i * channels];
+  }
+  return luma;
+}
+
+/**
+ * Mean SSIM and mean contrast-structure term of two aligned luma planes over Gaussian windows
+ */
+function ssimAtScale(x: Float32Array, y: Float32Array, width: number, height: number): { ssim: number; contrastStructure: number } {
+  const count = width * height;
+  const xx = new Float32Array(count);
+  const yy = new Float32Array(count);
+  const xy = new Float32Array(count);
+  for (let i = 0; i < count; i++) {
+    xx[i] = x[i] * x[i];
+    yy[i] = y[i] * y[i];
+    xy[i] = x[i] * y[i];
+  }
+
+  const meanX = gaussianBlur(x, width, height);
+  const meanY = gaussianBlur(y, width, height);
+  const meanXX = gaussianBlur(xx, width, height);
+  const meanYY = gaussianBlur(yy, width, height);
+  const meanXY = gaussianBlur(xy, width, height);
+
+  let ssimSum = 0;
+  let contrastStructureSum = 0;
+  for (let i = 0; i < count; i++) {
+    const varianceX = meanXX[i] - meanX[i] * meanX[i];
+    const varianceY = meanYY[i] - meanY[i] * meanY[i];
+    const covariance = meanXY[i] - meanX[i] * meanY[i];
+    const luminance = (2 * meanX[i] * meanY[i] + SSIM_C1) / (meanX[i] * meanX[i] + meanY[i] * meanY[i] + SSIM_C1);
+    const contrastStructure = (2 * covariance + SSIM_C2) / (varianceX + varianceY + SSIM_C2);
+    ssimSum += luminance * contrastStructure;
+    contrastStructureSum += contrastStructure;
+  }
+  return { ssim: ssimSum / count, contrastStructure: contrastStructureSum / count };
+}
+
+/**
+ * Separable Gaussian blur with the SSIM window, edges extended by repeating the border pixels
+ */
+function gaussianBlur(plane: Float32Array, width: number, height: number): Float32Array {
+  const radius = (SSIM_WINDOW - 1) / 2;
+  const kernel = new Float32Array(SSIM_WINDOW);
+  let kernelSum = 0;
+  for (let i = 0; i < SSIM_WINDOW; i++) {
+    kernel[i] = Math.exp(-((i - radius) ** 2) / (2 * SSIM_SIGMA * SSIM_SIGMA));
+    kernelSum += kernel[i];
+  }
+  for (let i = 0; i < SSIM_WINDOW; i++) {
+    kernel[i] /= kernelSum;
+  }
+
+  const horizontal = new Float32Array(plane.length);
+  for (let row = 0; row < height; row++) {
+    const offset = row * width;
+    for (let column = 0; column < width; column++) {
+      let sum = 0;
+      for (let k = 0; k < SSIM_WINDOW; k++) {
+        const source = Math.min(width - 1, Math.max(0, column + k - radius));
+        sum += kernel[k] * plane[offset + source];
+      }
+      horizontal[offset + column] = sum;
+    }
+  }
+
+  const blurred = new Float32Array(plane.length);
+  for (let row = 0; row < height; row++) {
+    for (let column = 0; column < width; column++) {
+      let sum = 0;
+      for (let k = 0; k < SSIM_WINDOW; k++) {
+        const source = Math.min(height - 1, Math.max(0, row + k - radius));
+        sum += kernel[k] * horizontal[source * width + column];
+      }
+      blurred[row * width + column] = sum;
+    }
+  }
+  return blurred;
+}
+
+/**
+ * Halve a luma plane by averaging 2x2 blocks, dropping an odd last row or column
+ */
+function halve(plane: Float32Array, width: number, height: number): Float32Array {
+  const halfWidth = Math.floor(width / 2);
+  const halfHeight = Math.floor(height / 2);
+  const halved = new Float32Array(halfWidth * halfHeight);
+  for (let row = 0; row < halfHeight; row++) {
+    for (let column = 0; column < halfWidth; column++) {
+      const topLeft = row * 2 * width + column * 2;
+      halved[row * halfWidth + column] =
+        (plane[topLeft] + plane[topLeft + 1] + plane[topLeft + width] + plane[topLeft + width + 1]) / 4;
+    }
+  }
+  return halved;
+}
+
+/**
+ * Format an RGB colour as a CSS hex value
+ */
+function toHex(r: number, g: number, b: number): string {
+  return '#' + [r, g, b].map(value => Math.round(Math.min(255, Math.max(0, value))).toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Euclidean distance between two RGB colours
+ */
+function colorDistance(a: number[], b: number[]): number {
+  return Math.sqrt((a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2);
+}
@@ -0,0 +1,131 @@
+/**
+ * Watermark compositing onto resized outputs
+ */
+
+import sharp from 'sharp';
+import { WatermarkPosition, WatermarkSettings } from '../types';
+
+// Text marks are rendered at this resolution, then scaled down to the mark width
+const TEXT_DPI = 300;
+
+// Placement of each position as fractions of the free space across and down
+const POSITIONS: Record<WatermarkPosition, [number, number]> = {
+  top_left: [0, 0],
+  top: [0.5, 0],
+  top_right: [1, 0],
+  left: [0, 0.5],
+  center: [0.5, 0.5],
+  right: [1, 0.5],
+  bottom_left: [0, 1],
+  bottom: [0.5, 1],
+  bottom_right: [1, 1]
+};
+
+const TRANSPARENT = { r: 0, g: 0, b: 0, alpha: 0 };
+
+/**
+ * Composite a watermark onto the output of a resizing pipeline
+ * @param image - Sharp pipeline producing the resized output
+ * @param settings - Mark, placement, margin, opacity, scale and tiling
+ * @param size - Output size of one frame, as the crop or dimension constraints compute it
+ * @param frames - Number of frames stacked in an animated pipeline, each gets the mark
+ * @returns Pipeline with the watermark composited after resizing
+ */
+export async function applyWatermark(
+  image: sharp.Sharp,
+  settings: WatermarkSettings,
+  size: { width: number; height: number },
+  frames: number = 1
+): Promise<sharp.Sharp> {
+  const margin = Math.round(settings.margin * size.width);
+
+  // The mark keeps its aspect ratio and stays inside the margins
+  const mark = await renderMark(
+    settings,
+    Math.max(1, Math.min(Math.round(settings.scale * size.width), size.width - 2 * margin)),
+    Math.max(1, size.height - 2 * margin)
+  );
+  const raw = { width: mark.width, height: mark.height, channels: 4 as const };
+
+  // Sharp stacks the frames of an animation vertically, so each frame is marked at its own offset
+  const frameTops = Array.from({ length: frames }, (_, frame) => frame * size.height);
+
+  if (settings.tile) {
+    // Transparent padding right of and below each tile spaces the repeats by the margin
+    const tile = await sharp(mark.data, { raw })
+      .extend({ right: margin, bottom: margin, background: TRANSPARENT })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    // Tiles restart on every frame, so one frame-sized layer is rendered and placed on each
+    const layer = await sharp({ create: { width: size.width, height: size.height, channels: 4, background: TRANSPARENT } })
+      .composite([{
+        input: tile.data,
+        raw: { width: tile.info.width, height: tile.info.height, channels: 4 },
+        tile: true
+      }])
+      .raw()
+      .toBuffer();
+    return image.composite(frameTops.map(top => ({
+      input: layer,
+      raw: { width: size.width, height: size.height, channels: 4 as const },
+      left: 0,
+      top
+    })));
+  }
+
+  const [across, down] = POSITIONS[settings.position];
+  const left = margin + Math.round(across * Math.max(0, size.width - 2 * margin - mark.width));
+  const top = margin + Math.round(down * Math.max(0, size.height - 2 * margin - mark.height));
+  return image.composite(frameTops.map(frameTop => ({ input: mark.data, raw, left, top: frameTop + top })));
+}
+
+/**
+ * Render the watermark image or text at its output size with the opacity applied
+ * @param settings - Watermark image or text, and opacity
+ * @param width - Width of the mark
+ * @param maxHeight - Height the mark must not exceed
+ * @returns RGBA pixels of the mark
+ */
+async function renderMark(
+  settings: WatermarkSettings,
+  width: number,
+  maxHeight: number
+): Promise<{ data: Buffer; width: number; height: number }> {
+  let source: sharp.Sharp;
+  if (settings.image) {
+    source = sharp(settings.image);
+  } else if (settings.text) {
+    source = sharp({
+      text: {
+        text: `<span foreground="white">${escapeMarkup(settings.text)}</span>`,
+        rgba: true,
+        dpi: TEXT_DPI
+      }
+    });
+  } else {
+    throw new Error('Watermark needs an image or text');
+  }
+
+  try {
+    const { data, info } = await source
+      .resize(width, maxHeight, { fit: 'inside' })
+      .ensureAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    for (let offset = 3; offset < data.length; offset += 4) {
+      data[offset] = Math.round(data[offset] * settings.opacity);
+    }
+    return { data, width: info.width, height: info.height };
+  } catch (error) {
+    throw new Error(`Failed to render watermark: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Escape text for Pango markup
+ */
+function escapeMarkup(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
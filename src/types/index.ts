@@ -12,6 +12,425 @@ export interface ImageMetadata {
   dimensions: { width: number; height: number };
   fileSize: number;
   contentType: 'photo' | 'graphic' | 'mixed';
+  animation?: AnimationInfo;    // Present for multi-frame sources such as animated GIFs
+}
+
+/**
+ * Frame timing of an animated image
+ */
+export interface AnimationInfo {
+  frameCount: number;
+  loop: number;       // Number of playback loops, 0 = infinite
+  delay: number[];    // Per-frame delay in milliseconds
+}
+
+/**
+ * Input formats the optimizer can decode
+ */
+export type InputFormat = 'jpeg' | 'png' | 'dng' | 'tiff' | 'heif' | 'bmp' | 'gif' | 'webp' | 'svg';
+
+/**
+ * Registry entry describing an input format
+ */
+export interface InputFormatDefinition {
+  extensions: string[];       // File extensions (without dot) that map to the format
+  decoder: string;            // Sharp/libvips loader that decodes the format
+  enabledByDefault: boolean;  // Included in DEFAULT_CONFIG.supportedFormats
+}
+
+/**
+ * Registry of input formats, drives supported extensions and format detection
+ */
+export const INPUT_FORMATS: Record<InputFormat, InputFormatDefinition> = {
+  jpeg: { extensions: ['jpg', 'jpeg'], decoder: 'jpeg', enabledByDefault: true },
+  png: { extensions: ['png'], decoder: 'png', enabledByDefault: true },
+  dng: { extensions: ['dng'], decoder: 'tiff', enabledByDefault: true },     // DNG is a TIFF container
+  tiff: { extensions: ['tif', 'tiff'], decoder: 'tiff', enabledByDefault: true },
+  heif: { extensions: ['heic', 'heif'], decoder: 'heif', enabledByDefault: true },  // HEVC decoding needs a libheif build with libde265
+  bmp: { extensions: ['bmp'], decoder: 'magick', enabledByDefault: false },  // Needs a libvips build with ImageMagick, prebuilt Sharp lacks it
+  gif: { extensions: ['gif'], decoder: 'gif', enabledByDefault: true },
+  webp: { extensions: ['webp'], decoder: 'webp', enabledByDefault: true },   // Re-optimised, kept only when meaningfully smaller
+  svg: { extensions: ['svg'], decoder: 'svg', enabledByDefault: true }      // Rasterised at the configured sizes
+};
+
+/**
+ * Look up the input format for a file extension
+ * @param extension - File extension (with or without dot)
+ * @returns Input format or null if the extension is unknown
+ */
+export function getInputFormatForExtension(extension: string): InputFormat | null {
+  const normalized = extension.toLowerCase().replace('.', '');
+  const entry = Object.entries(INPUT_FORMATS).find(([, definition]) => definition.extensions.includes(normalized));
+  return entry ? entry[0] as InputFormat : null;
+}
+
+/**
+ * Check if a value names a registered input format
+ * @param value - Format name to check
+ * @returns True if the value is a registered input format
+ */
+export function isInputFormat(value: string): value is InputFormat {
+  return Object.prototype.hasOwnProperty.call(INPUT_FORMATS, value);
+}
+
+/**
+ * Output formats the optimizer can encode to
+ */
+export type OutputFormat = 'webp' | 'avif' | 'jpeg' | 'png' | 'jxl';
+
+/**
+ * Encoder compression modes
+ */
+export type EncodingMode = 'lossy' | 'near_lossless' | 'lossless';
+
+/**
+ * Encoder tuning profiles by content type
+ */
+export type EncodingProfile = 'photo' | 'picture' | 'drawing' | 'icon' | 'text';
+
+/**
+ * Pixel size of a rendered variant of a source image
+ */
+export interface SizeDescriptor {
+  width: number;
+  height: number;
+  descriptor: string;   // srcset descriptor, e.g. '640w' or '2x'
+}
+
+/**
+ * CSS display size declared for images matching a path pattern
+ */
+export interface DisplaySizeRule {
+  pattern: string;    // Glob relative to the source directory, e.g. 'heroes/**' or '*.png'
+  width: number;      // CSS pixels
+  height?: number;    // CSS pixels, omitted to follow the aspect ratio
+}
+
+/**
+ * How an image is fitted to the maxWidth x maxHeight box, matching Sharp's fit modes
+ */
+export type ResizeFit = 'cover' | 'contain' | 'fill' | 'inside' | 'outside';
+
+/**
+ * Resampling kernels for resizing
+ */
+export type ResizeKernel = 'nearest' | 'cubic' | 'mitchell' | 'lanczos2' | 'lanczos3';
+
+/**
+ * Compression strategy used for content-based quality
+ */
+export type CompressionStrategy = 'high_quality' | 'balanced' | 'size_optimized';
+
+/**
+ * Which source metadata is carried into outputs
+ */
+export type MetadataPolicy =
+  | 'strip'       // Remove everything
+  | 'icc'         // Keep the colour profile only
+  | 'copyright'   // Keep the colour profile, EXIF Artist/Copyright, IPTC and XMP rights data
+  | 'no_gps';     // Keep everything except location data
+
+/**
+ * Kinds of metadata reported as removed from an output
+ */
+export type MetadataCategory = 'exif' | 'gps' | 'copyright' | 'icc' | 'iptc' | 'xmp';
+
+/**
+ * Colour gamut of an embedded ICC profile
+ */
+export type ColorGamut = 'srgb' | 'display_p3' | 'adobe_rgb' | 'prophoto' | 'rec2020' | 'other';
+
+/**
+ * Colour space outputs are encoded in
+ */
+export type OutputColorSpace = 'srgb' | 'display_p3';
+
+/**
+ * Colour handling recorded for a source with an embedded ICC profile
+ */
+export interface ColorInfo {
+  profile: string;              // Description of the embedded profile, e.g. 'Display P3'
+  gamut: ColorGamut;
+  output: OutputColorSpace;     // Colour space the output was encoded in
+  clippedPercent: number;       // Share of pixels outside the output gamut (0-100)
+  clipped: boolean;             // clippedPercent exceeded the configured threshold
+}
+
+/**
+ * White balance used when developing DNG files
+ */
+export type WhiteBalanceMode = 'as_shot' | 'auto';
+
+/**
+ * Named tone curves for DNG development
+ */
+export type ToneCurvePreset = 'linear' | 'standard' | 'high_contrast' | 'soft';
+
+/**
+ * DNG development settings
+ */
+export interface DngDevelopSettings {
+  whiteBalance: WhiteBalanceMode;   // 'as_shot' uses the camera's AsShotNeutral tag, 'auto' balances to grey
+  exposure: number;                 // Exposure compensation in EV stops (-5 to 5)
+  highlightRecovery: number;        // 0 clips highlights, 1 rolls them off from the upper mid-tones
+  toneCurve: ToneCurvePreset | Array<[number, number]>;  // Preset, or ascending [input, output] points between 0 and 1
+}
+
+/**
+ * Colours of an image as CSS hex values, for background fills and skeleton loaders
+ */
+export interface ImageColors {
+  dominant: string;             // Most common colour, e.g. '#3a6ea5'
+  average: string;              // Mean of all pixels
+  palette: string[];            // Up to five distinct colours, most common first
+}
+
+/**
+ * Placeholders shown while an image loads
+ */
+export interface ImagePlaceholders {
+  lqip: string;                 // Tiny blurred WebP as a data URI, for <img src> or CSS backgrounds
+  blurhash: string;             // BlurHash string
+  thumbhash: string;            // ThumbHash bytes, base64-encoded
+}
+
+/**
+ * Where a watermark is placed on the output
+ */
+export type WatermarkPosition =
+  | 'top_left' | 'top' | 'top_right'
+  | 'left' | 'center' | 'right'
+  | 'bottom_left' | 'bottom' | 'bottom_right';
+
+/**
+ * Watermark composited onto outputs after resizing
+ */
+export interface WatermarkSettings {
+  image: string | null;         // Overlay image with transparency, e.g. a PNG or SVG logo
+  text: string | null;          // White text drawn instead when no image is given
+  position: WatermarkPosition;  // Placement of a single mark, ignored when tiling
+  margin: number;               // Distance from the edges (and between tiles) as a fraction of the output width
+  opacity: number;              // 0 (invisible) to 1 (as drawn)
+  scale: number;                // Width of the mark as a fraction of the output width
+  tile: boolean;                // Repeat the mark across the whole output
+}
+
+/**
+ * Pixels a DNG output was rendered from: the embedded JPEG preview, or the developed raw data
+ */
+export type DngSource = 'preview' | 'developed';
+
+/**
+ * DNG development applied to an output, recorded in its result
+ */
+export interface DngDevelopment extends DngDevelopSettings {
+  multipliers: [number, number, number];  // White balance gains applied to red, green and blue
+}
+
+/**
+ * Tone curve control points per preset, as [input, output] pairs on display-encoded values
+ */
+export const TONE_CURVES: Record<ToneCurvePreset, Array<[number, number]>> = {
+  linear: [[0, 0], [1, 1]],
+  standard: [[0, 0], [0.25, 0.22], [0.5, 0.52], [0.75, 0.8], [1, 1]],       // Gentle S-curve, similar to camera defaults
+  high_contrast: [[0, 0], [0.25, 0.17], [0.5, 0.5], [0.75, 0.85], [1, 1]],  // Deeper shadows, brighter highlights
+  soft: [[0, 0.02], [0.25, 0.27], [0.5, 0.52], [0.75, 0.76], [1, 0.98]]     // Lifted blacks, muted highlights
+};
+
+/**
+ * Validate DNG development settings read from JSON
+ * @param value - Parsed JSON value
+ * @param label - Path or rule the value belongs to, for error messages
+ * @returns Settings present in the value
+ */
+export function parseDevelopSettings(value: unknown, label: string): Partial<DngDevelopSettings> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`development settings for ${label} must be an object`);
+  }
+
+  const { whiteBalance, exposure, highlightRecovery, toneCurve } = value as Record<string, unknown>;
+  const settings: Partial<DngDevelopSettings> = {};
+
+  if (whiteBalance !== undefined) {
+    const mode = String(whiteBalance).toLowerCase().replace('-', '_');
+    if (mode !== 'as_shot' && mode !== 'auto') {
+      throw new Error(`white balance for ${label} must be 'as-shot' or 'auto', got: ${whiteBalance}`);
+    }
+    settings.whiteBalance = mode;
+  }
+  if (exposure !== undefined) {
+    if (typeof exposure !== 'number' || exposure < -5 || exposure > 5) {
+      throw new Error(`exposure for ${label} must be between -5 and 5 EV, got: ${exposure}`);
+    }
+    settings.exposure = exposure;
+  }
+  if (highlightRecovery !== undefined) {
+    if (typeof highlightRecovery !== 'number' || highlightRecovery < 0 || highlightRecovery > 1) {
+      throw new Error(`highlight recovery for ${label} must be between 0 and 1, got: ${highlightRecovery}`);
+    }
+    settings.highlightRecovery = highlightRecovery;
+  }
+  if (toneCurve !== undefined) {
+    if (typeof toneCurve === 'string') {
+      const preset = toneCurve.toLowerCase().replace('-', '_');
+      if (!Object.prototype.hasOwnProperty.call(TONE_CURVES, preset)) {
+        throw new Error(`tone curve for ${label} must be one of ${Object.keys(TONE_CURVES).join(', ')} or a list of points, got: ${toneCurve}`);
+      }
+      settings.toneCurve = preset as ToneCurvePreset;
+    } else {
+      const points = Array.isArray(toneCurve) ? toneCurve : [];
+      const valid = points.length >= 2 && points.every((point, index) =>
+        Array.isArray(point) && point.length === 2 &&
+        point.every(coordinate => typeof coordinate === 'number' && coordinate >= 0 && coordinate <= 1) &&
+        (index === 0 || point[0] > points[index - 1][0])
+      );
+      if (!valid) {
+        throw new Error(`tone curve for ${label} needs at least two [input, output] points between 0 and 1 with ascending inputs`);
+      }
+      settings.toneCurve = points as Array<[number, number]>;
+    }
+  }
+
+  return settings;
+}
+
+/**
+ * Settings override for images matching a path pattern
+ */
+export interface PathRule {
+  pattern: string;                  // Glob relative to the source directory, e.g. 'assets/photos/**'
+  name?: string;                    // Label recorded in results (default: the pattern)
+  quality?: number;                 // Fixed quality instead of the content-based value
+  strategy?: CompressionStrategy;   // Compression strategy for content-based quality
+  maxWidth?: number;
+  maxHeight?: number;
+  formats?: OutputFormat[];         // Ordered fallback chain for matching images
+  mode?: 'auto' | EncodingMode;     // Encoding mode for matching images
+  metadata?: MetadataPolicy;        // Metadata kept in outputs for matching images
+  develop?: Partial<DngDevelopSettings>;  // DNG development for matching images
+  watermark?: boolean;              // Turn the configured watermark on or off for matching images
+  targetBytes?: number;             // Byte budget for each output of matching images
+  targetSsim?: number;              // Perceptual target for each output of matching images
+}
+
+/**
+ * Smart crop strategies, matching Sharp's attention and entropy crop strategies
+ */
+export type CropStrategy = 'attention' | 'entropy';
+
+/**
+ * Point of interest as fractions of the image width and height, measured from the top-left corner
+ */
+export interface FocalPoint {
+  x: number;    // 0 = left edge, 1 = right edge
+  y: number;    // 0 = top edge, 1 = bottom edge
+}
+
+/**
+ * Crop applied to an output, recorded in its result
+ */
+export interface CropInfo {
+  preset: string;                             // Preset name, or the ratio for custom presets
+  aspectRatio: string;                        // Width:height, e.g. '16:9'
+  strategy: CropStrategy | 'focal_point';     // How the region was chosen
+  focalPoint?: FocalPoint;                    // Set when a focal point chose the region
+  region: { left: number; top: number; width: number; height: number };  // In EXIF-oriented source pixels
+}
+
+/**
+ * Named crop presets and their aspect ratios
+ */
+export const CROP_PRESETS: Record<string, string> = {
+  square: '1:1',    // Thumbnails
+  card: '16:9',     // Cards and link previews
+  social: '4:5'     // Portrait social media posts
+};
+
+/**
+ * Resolve a crop preset name or a custom 'W:H' ratio
+ * @param preset - Preset name (e.g. 'square') or ratio (e.g. '3:2')
+ * @returns Preset name and aspect ratio, or null if the preset is unknown or malformed
+ */
+export function resolveCropPreset(preset: string): { preset: string; aspectRatio: string } | null {
+  const aspectRatio = CROP_PRESETS[preset] || preset;
+  const match = /^(\d+(?:\.\d+)?):(\d+(?:\.\d+)?)$/.exec(aspectRatio);
+  if (!match || parseFloat(match[1]) <= 0 || parseFloat(match[2]) <= 0) {
+    return null;
+  }
+  return { preset, aspectRatio };
+}
+
+/**
+ * Convert a 'W:H' aspect ratio to a width/height ratio
+ * @param aspectRatio - Ratio string, e.g. '16:9'
+ * @returns Width divided by height
+ */
+export function parseAspectRatio(aspectRatio: string): number {
+  const [width, height] = aspectRatio.split(':').map(parseFloat);
+  return width / height;
+}
+
+/**
+ * Why an image was skipped rather than converted
+ */
+export type SkipReason = 'unsupported' | 'already_optimal' | 'would_upscale';
+
+/**
+ * Outcome of encoding an output to a byte budget
+ */
+export interface ByteBudgetResult {
+  targetBytes: number;
+  met: boolean;                 // Output is at or under the budget
+  quality: number;              // Quality the output was encoded at
+  attempts: number;             // Encodes the search tried
+  downscaled?: { width: number; height: number };  // Set when even the minimum quality missed the budget at full size
+}
+
+/**
+ * Pixel-level similarity of an output to its reference, 1 for identical pixels
+ */
+export interface StructuralSimilarity {
+  ssim: number;                 // Mean SSIM over 11x11 Gaussian windows of luma at the output resolution
+  msSsim: number;               // Multi-scale SSIM over up to five halvings of the output resolution
+}
+
+/**
+ * One encode tried while searching for a perceptual target
+ */
+export interface PerceptualSearchStep {
+  quality: number;
+  score: number;                // SSIM against the reference
+  bytes: number;
+}
+
+/**
+ * Outcome of encoding an output to a perceptual target
+ */
+export interface PerceptualTargetResult {
+  targetSsim: number;
+  met: boolean;                 // Output scores at or above the target
+  quality: number;              // Lowest quality meeting the target, otherwise the highest tried
+  score: number;                // SSIM of the chosen quality
+  trace: PerceptualSearchStep[];  // Encodes in the order they were tried
+}
+
+/**
+ * Encoded output of one target format for a source image
+ */
+export interface FormatVariant {
+  format: OutputFormat;
+  optimizedPath: string;
+  optimizedSize: number;
+  compressionRatio: number;
+  encoderQuality?: number;
+  encodingMode?: EncodingMode;
+  encodingProfile?: EncodingProfile;
+  status: 'success' | 'failed' | 'skipped';
+  errorMessage?: string;
+  skipReason?: SkipReason;
+  budget?: ByteBudgetResult;
+  perceptual?: PerceptualTargetResult;
+  similarity?: StructuralSimilarity;
 }
 
 /**
@@ -27,6 +446,35 @@ export interface OptimizationResult {
   processingTime: number;
   status: 'success' | 'failed' | 'skipped';
   errorMessage?: string;
+  skipReason?: SkipReason;      // Set when status is 'skipped'
+  format?: OutputFormat;        // Target format of the optimized file
+  encoderQuality?: number;      // Quality value passed to the format encoder
+  encodingMode?: EncodingMode;  // Compression mode used by the format encoder
+  encodingProfile?: EncodingProfile;  // Content tuning profile used by the format encoder
+  variants?: FormatVariant[];   // One entry per requested output format
+  losslessRecompression?: boolean;  // Source bitstream recompressed without re-encoding pixels
+  animation?: AnimationInfo & {
+    bytesSaved: number;           // Size reduction of the whole animation
+  };
+  size?: SizeDescriptor;        // Rendered size when a source is written at several sizes
+  sizeVariants?: OptimizationResult[];  // Further sizes rendered from the same source
+  crop?: CropInfo;              // Crop applied before encoding
+  focalPoint?: FocalPoint;      // Focal point declared for the source
+  rule?: string;                // Name or pattern of the path rule that applied
+  cropVariants?: OptimizationResult[];  // One cropped output per configured crop preset
+  color?: ColorInfo;            // Colour conversion of sources with an embedded profile
+  development?: DngDevelopment; // Development applied to a DNG source
+  dngSource?: DngSource;        // Whether a DNG output was rendered from its embedded preview or developed
+  watermarked?: boolean;        // Watermark composited onto the output
+  placeholders?: ImagePlaceholders;  // Loading placeholders computed from the primary output
+  colors?: ImageColors;         // Dominant and average colour and palette of the source
+  budget?: ByteBudgetResult;    // Quality search towards a byte budget
+  perceptual?: PerceptualTargetResult;  // Quality search towards a perceptual target
+  similarity?: StructuralSimilarity;    // SSIM and MS-SSIM measured when the output was validated
+  metadata?: {                  // Metadata policy applied to the output
+    policy: MetadataPolicy;
+    removed: MetadataCategory[];  // Source metadata not present in the output
+  };
 }
 
 /**
@@ -40,6 +488,38 @@ export interface ProcessingReport {
   averageCompressionRatio: number;
   processingTime: number;
   results: OptimizationResult[];
+  formatTotals?: Partial<Record<OutputFormat, {
+    conversions: number;
+    totalOptimizedSize: number;
+  }>>;
+  skipReasons?: Partial<Record<SkipReason, number>>;
+  animationTotals?: {
+    animatedImages: number;
+    totalFrames: number;
+    totalSizeReduction: number;
+  };
+}
+
+/**
+ * Per-image entry in the filename mapping manifest
+ */
+export interface ImageManifestEntry {
+  output: string;                                   // Primary optimized filename
+  formats: Partial<Record<OutputFormat, string>>;   // Filename of each format variant
+  sizes?: Array<SizeDescriptor & {                  // Every size written for the source
+    output: string;
+    formats: Partial<Record<OutputFormat, string>>;
+  }>;
+  srcset?: Partial<Record<OutputFormat, string>>;   // Ready-made srcset attribute value per format
+  focalPoint?: FocalPoint;                          // Declared focal point of the source
+  objectPosition?: string;                          // Focal point as a CSS object-position value, e.g. '50% 20%'
+  crops?: Record<string, {                          // Cropped outputs keyed by preset
+    aspectRatio: string;
+    output: string;
+    formats: Partial<Record<OutputFormat, string>>;
+  }>;
+  placeholders?: ImagePlaceholders;                 // Inline placeholders, rendered without extra requests
+  colors?: ImageColors;                             // Dominant and average colour and palette
 }
 
 /**
@@ -152,7 +632,12 @@ export interface OptimizationConfig {
   dimensions: {
     maxWidth: number;
     maxHeight: number;
-    preserveAspectRatio: boolean;
+    preserveAspectRatio: boolean;  // false stretches to the box, as fit 'fill' does
+    widths?: number[];          // Responsive srcset widths, e.g. [320, 640, 960, 1280, 1920]; empty writes one size
+    fit?: ResizeFit;            // How single-size outputs fill the maxWidth x maxHeight box
+    background?: string | null; // Padding colour for 'contain', null pads with transparency
+    kernel?: ResizeKernel;      // Resampling kernel for every resize
+    maxUpscale?: number;        // Largest enlargement factor for small sources, 1 never enlarges
   };
   processing: {
     concurrency: number;
@@ -163,6 +648,59 @@ export interface OptimizationConfig {
     preserveFilenames: boolean;
     generateReport: boolean;
     reportFormat: 'json' | 'text';
+    format?: OutputFormat;
+    formats?: OutputFormat[];   // Ordered fallback chain, e.g. ['avif', 'webp', 'jpeg']
+    jxlLosslessJpeg?: boolean;  // Recompress JPEG sources to JPEG XL without loss
+  };
+  encoding: {
+    mode: 'auto' | EncodingMode;  // 'auto' picks the mode from content analysis
+    profile: 'auto' | EncodingProfile;  // 'auto' picks the tuning profile from content analysis
+    strategy: 'auto' | CompressionStrategy;  // 'auto' picks the compression strategy from content analysis
+  };
+  rules: {
+    entries: PathRule[];        // Ordered per-path overrides of quality, dimensions, formats and mode
+    match: 'first' | 'most_specific';  // Which of several matching rules applies
+  };
+  density: {
+    displaySizes: DisplaySizeRule[];  // First matching rule gives a path its CSS display size
+    densities: number[];        // Pixel densities written for paths with a display size, e.g. [1, 2, 3]
+    qualityStep: number;        // Quality points removed per density step above 1x
+  };
+  crop: {
+    presets: string[];          // Crop presets ('square', 'card', 'social') or 'W:H' ratios, each an extra output
+    strategy: CropStrategy;     // How the crop region is chosen when no focal point is given
+  };
+  focalPoints: {
+    mapFile: string | null;     // JSON file mapping relative paths or glob patterns to focal points
+    sidecarSuffix: string;      // Per-image sidecar next to the source, e.g. 'hero.jpg.focus.json'
+  };
+  metadata: {
+    policy: MetadataPolicy;     // Partial policies apply to WebP and JPEG, other formats are always stripped
+  };
+  color: {
+    output: OutputColorSpace;   // 'display_p3' keeps wide-gamut sources in P3 with an embedded profile (WebP and JPEG)
+    clipThreshold: number;      // Percentage of out-of-gamut pixels that flags an image as clipped
+  };
+  dng: DngDevelopSettings & {
+    sidecarSuffix: string;      // Per-image overrides next to the source, e.g. 'shot.dng.develop.json'
+    usePreview: boolean;        // Render from the largest embedded JPEG preview when it covers the output size
+  };
+  watermark: WatermarkSettings & {
+    enabled: boolean;           // Mark every output unless a path rule turns it off
+  };
+  placeholders: {
+    enabled: boolean;           // Compute an LQIP data URI, BlurHash and ThumbHash per image
+  };
+  budget: {
+    maxBytes: number | null;    // Byte budget for every output, path rules can set their own
+  };
+  perceptual: {
+    targetSsim: number | null;  // Lowest quality scoring at least this SSIM, path rules can set their own
+  };
+  svg: {
+    widths: number[];           // Rasterise at these pixel widths, takes precedence over densities
+    densities: number[];        // Otherwise rasterise at these multiples of the SVG's intrinsic size
+    background: string | null;  // Fill for transparent areas, null keeps transparency
   };
   supportedFormats: string[];
 }
@@ -181,7 +719,12 @@ export const DEFAULT_CONFIG: OptimizationConfig = {
   dimensions: {
     maxWidth: 1920,               // Maximum width constraint (Full HD)
     maxHeight: 1080,              // Maximum height constraint (Full HD)
-    preserveAspectRatio: true     // Always maintain original aspect ratio
+    preserveAspectRatio: true,    // Always maintain original aspect ratio
+    widths: [],                   // Single size capped at maxWidth x maxHeight
+    fit: 'inside',                // Fit within the box without cropping or padding
+    background: null,             // Transparent padding for 'contain'
+    kernel: 'lanczos3',           // High-quality resampling
+    maxUpscale: 1                 // Never enlarge images
   },
   processing: {
     concurrency: 4,                    // Process 4 images concurrently
@@ -191,9 +734,74 @@ export const DEFAULT_CONFIG: OptimizationConfig = {
   output: {
     preserveFilenames: true,           // Maintain original filename structure
     generateReport: true,              // Create optimization summary report
-    reportFormat: 'json'               // Default report format
+    reportFormat: 'json',              // Default report format
+    format: 'webp',                    // Default output format
+    jxlLosslessJpeg: true              // Archive JPEG originals losslessly when targeting JPEG XL
+  },
+  encoding: {
+    mode: 'auto',                      // Lossless for palette graphics, lossy for photos
+    profile: 'auto',                   // Photo tuning for photos, text tuning for screenshots
+    strategy: 'auto'                   // High quality for detailed content, size-optimised for simple content
+  },
+  rules: {
+    entries: [],                       // Global settings apply to every path
+    match: 'first'                     // The earliest matching rule applies
+  },
+  density: {
+    displaySizes: [],                  // No display sizes, density variants are opt-in per path
+    densities: [1, 2, 3],              // @1x, @2x and @3x
+    qualityStep: 5                     // High-DPI pixels hide artifacts, 2x at -5 and 3x at -10
+  },
+  crop: {
+    presets: [],                       // No cropped outputs
+    strategy: 'attention'              // Crop towards skin tones, saturation and luminance frequency
+  },
+  focalPoints: {
+    mapFile: null,                     // No central focal point file
+    sidecarSuffix: '.focus.json'       // Sidecars win over the central file
+  },
+  metadata: {
+    policy: 'strip'                    // Smallest files, no camera or location data leaks
+  },
+  color: {
+    output: 'srgb',                    // Every browser renders untagged sRGB correctly
+    clipThreshold: 5                   // Flag images losing saturated colours in more than 5% of pixels
+  },
+  dng: {
+    whiteBalance: 'as_shot',           // Match the camera's white balance
+    exposure: 0,                       // No exposure compensation
+    highlightRecovery: 0.5,            // Roll off the brightest stop instead of clipping it
+    toneCurve: 'standard',             // Camera-like contrast
+    sidecarSuffix: '.develop.json',    // Sidecars override path rules and the global settings
+    usePreview: false                  // Always develop the raw data
+  },
+  watermark: {
+    enabled: false,                    // No watermark unless one is configured
+    image: null,
+    text: null,
+    position: 'bottom_right',          // Out of the way of the subject
+    margin: 0.02,                      // 2% of the output width from the edges
+    opacity: 0.5,                      // Semi-transparent
+    scale: 0.2,                        // A fifth of the output width
+    tile: false                        // A single mark
+  },
+  placeholders: {
+    enabled: true                      // A few milliseconds per image, saves a separate placeholder pass
   },
-  supportedFormats: ['jpg', 'jpeg', 'png', 'dng']  // Supported input formats
+  budget: {
+    maxBytes: null                     // Outputs are sized by quality alone
+  },
+  perceptual: {
+    targetSsim: null                   // Content-based quality without a search
+  },
+  svg: {
+    widths: [],                        // No fixed widths, render at the intrinsic size
+    densities: [1],                    // 1x of the SVG's width/height attributes
+    background: null                   // Keep transparency
+  },
+  supportedFormats: Object.values(INPUT_FORMATS)  // Extensions of the default input formats
+    .filter(definition => definition.enabledByDefault)
+    .flatMap(definition => definition.extensions)
 };
 
 /**
@@ -220,6 +828,15 @@ export class ConfigManager {
     return this.config.quality[contentType];
   }
 
+  /**
+   * Get ordered list of output formats to encode for each image
+   */
+  getOutputFormats(): OutputFormat[] {
+    const { format, formats } = this.config.output;
+    const requested = formats && formats.length > 0 ? formats : [format || 'webp'];
+    return requested.filter((value, index) => requested.indexOf(value) === index);
+  }
+
   /**
    * Check if format is supported
    */
@@ -288,6 +905,19 @@ export class ConfigManager {
       dimensions: { ...base.dimensions, ...updates.dimensions },
       processing: { ...base.processing, ...updates.processing },
       output: { ...base.output, ...updates.output },
+      encoding: { ...base.encoding, ...updates.encoding },
+      rules: { ...base.rules, ...updates.rules },
+      density: { ...base.density, ...updates.density },
+      crop: { ...base.crop, ...updates.crop },
+      focalPoints: { ...base.focalPoints, ...updates.focalPoints },
+      metadata: { ...base.metadata, ...updates.metadata },
+      color: { ...base.color, ...updates.color },
+      dng: { ...base.dng, ...updates.dng },
+      watermark: { ...base.watermark, ...updates.watermark },
+      placeholders: { ...base.placeholders, ...updates.placeholders },
+      budget: { ...base.budget, ...updates.budget },
+      perceptual: { ...base.perceptual, ...updates.perceptual },
+      svg: { ...base.svg, ...updates.svg },
       supportedFormats: updates.supportedFormats || base.supportedFormats
     };
   }
@@ -312,6 +942,33 @@ export class ConfigManager {
       throw new Error('Minimum quality must be between 1 and 100');
     }
 
+    // Validate path rules
+    for (const rule of this.config.rules.entries) {
+      if (!rule.pattern) {
+        throw new Error('Path rules need a pattern');
+      }
+      if (rule.quality !== undefined && (rule.quality < 1 || rule.quality > 100)) {
+        throw new Error(`Quality for path rule ${rule.name || rule.pattern} must be between 1 and 100`);
+      }
+      if (rule.targetBytes !== undefined && !(rule.targetBytes > 0)) {
+        throw new Error(`Target bytes for path rule ${rule.name || rule.pattern} must be positive`);
+      }
+      if (rule.targetSsim !== undefined && !(rule.targetSsim > 0 && rule.targetSsim < 1)) {
+        throw new Error(`Target SSIM for path rule ${rule.name || rule.pattern} must be between 0 and 1`);
+      }
+    }
+
+    // Validate byte budget
+    if (this.config.budget.maxBytes !== null && !(this.config.budget.maxBytes > 0)) {
+      throw new Error('Maximum bytes must be positive');
+    }
+
+    // Validate perceptual target
+    const { targetSsim } = this.config.perceptual;
+    if (targetSsim !== null && !(targetSsim > 0 && targetSsim < 1)) {
+      throw new Error('Target SSIM must be between 0 and 1');
+    }
+
     // Validate processing settings
     if (processing.concurrency < 1) {
       throw new Error('Concurrency must be at least 1');
@@ -4,7 +4,10 @@
 
 import * as fs from 'fs-extra';
 import * as path from 'path';
-import { DEFAULT_CONFIG } from '../types';
+import { DEFAULT_CONFIG, DngDevelopSettings, FocalPoint, ImageManifestEntry, OptimizationResult, OutputFormat, getInputFormatForExtension, parseDevelopSettings } from '../types';
+
+// Written into every output directory, marks directories of earlier runs so their outputs are not taken for sources
+const MAPPING_FILENAME = 'filename-mapping.json';
 
 /**
  * File management utilities for image optimization
@@ -18,10 +21,12 @@ export class FileManager {
 
   /**
    * Recursively scan source directory for supported image formats
+   * Skips the given output directory and the output directories of earlier runs, which hold a filename mapping
    * @param sourcePath - Directory path to scan
+   * @param outputDirectory - Output directory of the run, when it lies inside the source directory
    * @returns Array of image file paths
    */
-  async scanDirectory(sourcePath: string): Promise<string[]> {
+  async scanDirectory(sourcePath: string, outputDirectory?: string): Promise<string[]> {
     const imageFiles: string[] = [];
 
     try {
@@ -38,8 +43,13 @@ export class FileManager {
         const fullPath = path.join(sourcePath, entry.name);
 
         if (entry.isDirectory()) {
+          if ((outputDirectory && path.resolve(fullPath) === path.resolve(outputDirectory)) ||
+              await fs.pathExists(path.join(fullPath, MAPPING_FILENAME))) {
+            continue;
+          }
+
           // Recursively scan subdirectories
-          const subDirectoryFiles = await this.scanDirectory(fullPath);
+          const subDirectoryFiles = await this.scanDirectory(fullPath, outputDirectory);
           imageFiles.push(...subDirectoryFiles);
         } else if (entry.isFile()) {
           // Check if file has supported extension
@@ -61,11 +71,11 @@ export class FileManager {
   /**
    * Check if a file has a supported image extension
    * @param filename - Name of the file to check
-   * @returns True if file has supported extension
+   * @returns True if file has a registered input format extension that is enabled
    */
   private isSupportedImageFile(filename: string): boolean {
     const extension = path.extname(filename).toLowerCase().replace('.', '');
-    return this.supportedExtensions.includes(extension);
+    return getInputFormatForExtension(extension) !== null && this.supportedExtensions.includes(extension);
   }
 
   /**
@@ -79,14 +89,26 @@ export class FileManager {
   /**
    * Generate WebP filename while preserving original name structure
    * @param originalPath - Original image file path
+   * @param suffix - Size suffix appended to the name, e.g. '@2x'
    * @returns WebP filename with preserved structure
    */
-  generateWebPFilename(originalPath: string): string {
+  generateWebPFilename(originalPath: string, suffix: string = ''): string {
+    return this.generateOutputFilename(originalPath, 'webp', suffix);
+  }
+
+  /**
+   * Generate output filename for a target format while preserving original name structure
+   * @param originalPath - Original image file path
+   * @param extension - Target file extension (without dot)
+   * @param suffix - Size suffix appended to the name, e.g. '-640w' or '@2x'
+   * @returns Output filename with preserved structure
+   */
+  generateOutputFilename(originalPath: string, extension: string, suffix: string = ''): string {
     const parsedPath = path.parse(originalPath);
     
     // Preserve the original filename (including special characters and spaces)
-    // Only replace the extension with .webp
-    return parsedPath.name + '.webp';
+    // Only add the size suffix and replace the extension with the target format's extension
+    return parsedPath.name + suffix + '.' + extension;
   }
 
   /**
@@ -100,6 +122,19 @@ export class FileManager {
     return path.join(outputDirectory, webpFilename);
   }
 
+  /**
+   * Generate full output path for a target format
+   * @param originalPath - Original image file path
+   * @param outputDirectory - Target output directory
+   * @param extension - Target file extension (without dot)
+   * @param suffix - Size suffix appended to the name, e.g. '-640w' or '@2x'
+   * @returns Full path for the output file
+   */
+  generateOutputPath(originalPath: string, outputDirectory: string, extension: string, suffix: string = ''): string {
+    const outputFilename = this.generateOutputFilename(originalPath, extension, suffix);
+    return path.join(outputDirectory, outputFilename);
+  }
+
   /**
    * Validate filename for special characters and ensure compatibility
    * @param filename - Filename to validate
@@ -174,39 +209,125 @@ export class FileManager {
    * Generate filename mapping for integration reference
    * @param originalFiles - Array of original file paths
    * @param outputDirectory - Output directory path
+   * @param extension - Target file extension (default: 'webp')
    * @returns Mapping object from original to optimized filenames
    */
-  generateFilenameMapping(originalFiles: string[], outputDirectory: string): Record<string, string> {
+  generateFilenameMapping(originalFiles: string[], outputDirectory: string, extension: string = 'webp'): Record<string, string> {
     const mapping: Record<string, string> = {};
 
     for (const originalPath of originalFiles) {
       const originalFilename = path.basename(originalPath);
-      const webpFilename = this.generateWebPFilename(originalPath);
-      const webpPath = path.join(outputDirectory, webpFilename);
+      const outputFilename = this.generateOutputFilename(originalPath, extension);
 
-      mapping[originalFilename] = webpFilename;
+      mapping[originalFilename] = outputFilename;
     }
 
     return mapping;
   }
 
+  /**
+   * Generate per-image manifest of written outputs from processing results
+   * @param results - Optimization results of a batch run
+   * @returns Manifest keyed by original filename
+   */
+  generateImageManifest(results: OptimizationResult[]): Record<string, ImageManifestEntry> {
+    const manifest: Record<string, ImageManifestEntry> = {};
+
+    for (const result of results) {
+      if (result.status !== 'success' || !result.optimizedPath) {
+        continue;
+      }
+
+      const entry: ImageManifestEntry = {
+        output: path.basename(result.optimizedPath),
+        formats: this.getVariantFilenames(result)
+      };
+
+      // Sources written at several sizes list every size and a srcset per format
+      if (result.size) {
+        const sizeResults = [result, ...(result.sizeVariants || [])].filter(r => r.status === 'success' && r.size);
+        entry.sizes = sizeResults.map(r => ({
+          ...r.size!,
+          output: path.basename(r.optimizedPath),
+          formats: this.getVariantFilenames(r)
+        }));
+
+        entry.srcset = {};
+        for (const format of Object.keys(entry.formats) as OutputFormat[]) {
+          entry.srcset[format] = entry.sizes
+            .filter(size => size.formats[format])
+            .map(size => `${size.formats[format]} ${size.descriptor}`)
+            .join(', ');
+        }
+      }
+
+      // Front-end code keeps the focal point in view with object-fit: cover
+      if (result.focalPoint) {
+        entry.focalPoint = result.focalPoint;
+        entry.objectPosition = `${+(result.focalPoint.x * 100).toFixed(1)}% ${+(result.focalPoint.y * 100).toFixed(1)}%`;
+      }
+
+      // Art-directed crops are listed per preset
+      const cropResults = (result.cropVariants || []).filter(r => r.status === 'success' && r.crop);
+      if (cropResults.length > 0) {
+        entry.crops = {};
+        for (const cropResult of cropResults) {
+          entry.crops[cropResult.crop!.preset] = {
+            aspectRatio: cropResult.crop!.aspectRatio,
+            output: path.basename(cropResult.optimizedPath),
+            formats: this.getVariantFilenames(cropResult)
+          };
+        }
+      }
+
+      if (result.placeholders) {
+        entry.placeholders = result.placeholders;
+      }
+      if (result.colors) {
+        entry.colors = result.colors;
+      }
+
+      manifest[path.basename(result.originalPath)] = entry;
+    }
+
+    return manifest;
+  }
+
+  /**
+   * Collect the filenames of a result's successful format variants
+   * @param result - Optimization result
+   * @returns Filename per output format
+   */
+  private getVariantFilenames(result: OptimizationResult): ImageManifestEntry['formats'] {
+    const formats: ImageManifestEntry['formats'] = {};
+    for (const variant of result.variants || []) {
+      if (variant.status === 'success') {
+        formats[variant.format] = path.basename(variant.optimizedPath);
+      }
+    }
+    return formats;
+  }
+
   /**
    * Save filename mapping to a JSON file for integration reference
    * @param mapping - Filename mapping object
    * @param outputDirectory - Directory to save the mapping file
    * @param filename - Name of the mapping file (default: 'filename-mapping.json')
+   * @param manifest - Optional per-image manifest of written outputs
    */
   async saveFilenameMapping(
     mapping: Record<string, string>, 
     outputDirectory: string, 
-    filename: string = 'filename-mapping.json'
+    filename: string = MAPPING_FILENAME,
+    manifest?: Record<string, ImageManifestEntry>
   ): Promise<void> {
     try {
       const mappingPath = path.join(outputDirectory, filename);
       const mappingData = {
         generatedAt: new Date().toISOString(),
         totalFiles: Object.keys(mapping).length,
-        mapping: mapping
+        mapping: mapping,
+        ...(manifest ? { images: manifest } : {})
       };
 
       await fs.writeJson(mappingPath, mappingData, { spaces: 2 });
@@ -218,6 +339,90 @@ export class FileManager {
     }
   }
 
+  /**
+   * Get an image's path relative to the source directory, with forward slashes for pattern matching
+   * @param imagePath - Path to the image file
+   * @param sourceDirectory - Source directory of the batch run
+   * @returns Relative path such as 'heroes/home.jpg'
+   */
+  getRelativeImagePath(imagePath: string, sourceDirectory: string): string {
+    return path.relative(sourceDirectory, imagePath).split(path.sep).join('/');
+  }
+
+  /**
+   * Load a central focal point file
+   * @param mapFile - JSON file mapping relative paths or glob patterns to { "x": 0-1, "y": 0-1 }
+   * @returns Focal points keyed by path or pattern, in file order
+   */
+  async loadFocalPointMap(mapFile: string): Promise<Record<string, FocalPoint>> {
+    try {
+      const entries = await fs.readJson(mapFile);
+      if (typeof entries !== 'object' || entries === null || Array.isArray(entries)) {
+        throw new Error('expected an object keyed by image path');
+      }
+
+      const focalPoints: Record<string, FocalPoint> = {};
+      for (const [pattern, value] of Object.entries(entries)) {
+        focalPoints[pattern] = this.parseFocalPoint(value, pattern);
+      }
+      return focalPoints;
+    } catch (error) {
+      throw new Error(`Failed to load focal points from ${mapFile}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Read the focal point sidecar stored next to an image
+   * @param imagePath - Path to the image file
+   * @param suffix - Sidecar suffix appended to the image filename (e.g. '.focus.json')
+   * @returns Focal point, or null if the image has no sidecar
+   */
+  async readFocalPointSidecar(imagePath: string, suffix: string): Promise<FocalPoint | null> {
+    const sidecarPath = `${imagePath}${suffix}`;
+    if (!(await fs.pathExists(sidecarPath))) {
+      return null;
+    }
+
+    try {
+      return this.parseFocalPoint(await fs.readJson(sidecarPath), path.basename(sidecarPath));
+    } catch (error) {
+      throw new Error(`Invalid focal point sidecar ${sidecarPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Read the DNG development sidecar stored next to an image
+   * @param imagePath - Path to the DNG file
+   * @param suffix - Sidecar suffix appended to the image filename (e.g. '.develop.json')
+   * @returns Settings the sidecar overrides, empty if the image has no sidecar
+   */
+  async readDevelopSidecar(imagePath: string, suffix: string): Promise<Partial<DngDevelopSettings>> {
+    const sidecarPath = `${imagePath}${suffix}`;
+    if (!(await fs.pathExists(sidecarPath))) {
+      return {};
+    }
+
+    try {
+      return parseDevelopSettings(await fs.readJson(sidecarPath), path.basename(sidecarPath));
+    } catch (error) {
+      throw new Error(`Invalid development sidecar ${sidecarPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Validate a focal point read from JSON
+   * @param value - Parsed JSON value
+   * @param label - Path or pattern the value belongs to, for error messages
+   * @returns Focal point with both fractions between 0 and 1
+   */
+  private parseFocalPoint(value: unknown, label: string): FocalPoint {
+    const { x, y } = (value || {}) as Record<string, unknown>;
+    if (typeof x !== 'number' || typeof y !== 'number' || x < 0 || x > 1 || y < 0 || y > 1) {
+      throw new Error(`focal point for ${label} needs x and y between 0 and 1`);
+    }
+    return { x, y };
+  }
+
   /**
    * Check if output directory is empty or contains only mapping files
    * @param outputPath - Output directory path
@@ -248,4 +453,59 @@ export class FileManager {
       return false; // If we can't check, assume it's not safe
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Check if a relative path matches a glob pattern
+ * Supports '**' (any number of directories), '*' and '?' within a segment, and '{a,b}' alternatives;
+ * patterns without a slash match the filename at any depth, and case is ignored so '*.jpg' matches 'IMG_01.JPG'
+ * @param relativePath - Forward-slash path relative to the source directory
+ * @param pattern - Glob pattern
+ * @returns True if the path matches
+ */
+export function matchesGlob(relativePath: string, pattern: string): boolean {
+  const subject = pattern.includes('/') ? relativePath : path.posix.basename(relativePath);
+  let source = '';
+  let braceDepth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*' && pattern[i + 1] === '*') {
+      // '**/' matches zero or more directories, a trailing '**' matches everything below
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      source += '(?:';
+      braceDepth++;
+    } else if (char === '}' && braceDepth > 0) {
+      source += ')';
+      braceDepth--;
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`, 'i').test(subject);
+}
+
+/**
+ * Rank how specific a glob pattern is, for choosing between several matching patterns
+ * Literal characters count, wildcards and alternatives do not, so 'assets/photos/**' outranks '*.jpg'
+ * @param pattern - Glob pattern
+ * @returns Number of literal characters in the pattern
+ */
+export function globSpecificity(pattern: string): number {
+  return pattern.replace(/\{[^}]*\}|[*?]/g, '').length;
+}
@@ -6,7 +6,9 @@ import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import * as fs from 'fs-extra';
 import * as path from 'path';
 import { BatchProcessor } from '../../src/core/batch-processor';
-import { OptimizationConfig } from '../../src/types';
+import { WebPConverter } from '../../src/core';
+import { QualityValidator } from '../../src/core/quality-optimizer';
+import { DEFAULT_CONFIG, OptimizationConfig } from '../../src/types';
 
 describe('Batch Processing Integration Tests', () => {
   const testDataDir = path.join(__dirname, '../fixtures');
@@ -114,6 +116,1194 @@ describe('Batch Processing Integration Tests', () => {
     await fs.remove(testImagesDir);
   }, 30000);
 
+  it('should skip BMP sources by default and report a missing decoder when enabled', async () => {
+    const testImagesDir = path.join(__dirname, '../temp/bmp-images');
+    await fs.ensureDir(testImagesDir);
+    const sharp = require('sharp');
+
+    // 2x2 24-bit bitmap: 54-byte header followed by two padded rows
+    const bitmap = Buffer.alloc(54 + 16);
+    bitmap.write('BM', 0);
+    bitmap.writeUInt32LE(bitmap.length, 2);
+    bitmap.writeUInt32LE(54, 10);
+    bitmap.writeUInt32LE(40, 14);
+    bitmap.writeInt32LE(2, 18);
+    bitmap.writeInt32LE(2, 22);
+    bitmap.writeUInt16LE(1, 26);
+    bitmap.writeUInt16LE(24, 28);
+    const sourcePath = path.join(testImagesDir, 'legacy.bmp');
+    await fs.writeFile(sourcePath, bitmap);
+
+    const byDefault = await new BatchProcessor().processImage(sourcePath, tempOutputDir);
+    expect(byDefault).toMatchObject({ status: 'skipped', skipReason: 'unsupported' });
+
+    const enabled = await new BatchProcessor({ supportedFormats: [...DEFAULT_CONFIG.supportedFormats, 'bmp'] })
+      .processImage(sourcePath, tempOutputDir);
+    if (sharp.format.magick?.input.file) {
+      expect(enabled.status).toBe('success');
+    } else {
+      expect(enabled).toMatchObject({ status: 'skipped', skipReason: 'unsupported' });
+      expect(enabled.errorMessage).toContain('Unsupported decoder');
+    }
+
+    await fs.remove(testImagesDir);
+  }, 30000);
+
+  it('should emit every format in the fallback chain', async () => {
+    const testImagesDir = path.join(__dirname, '../temp/multi-format-images');
+    await fs.ensureDir(testImagesDir);
+    
+    await createTestImage(path.join(testImagesDir, 'hero.jpg'), 'jpeg');
+    
+    const config: Partial<OptimizationConfig> = {
+      output: {
+        generateReport: true,
+        reportFormat: 'json',
+        preserveFilenames: true,
+        formats: ['avif', 'webp', 'jpeg']
+      },
+      processing: {
+        concurrency: 1,
+        enableProgressReporting: false,
+        continueOnError: true
+      }
+    };
+
+    const batchProcessor = new BatchProcessor(config);
+    
+    const result = await batchProcessor.processDirectory({
+      sourceDirectory: testImagesDir,
+      outputDirectory: tempOutputDir
+    });
+
+    expect(result.totalImages).toBe(1);
+    expect(result.results[0].format).toBe('avif');
+    expect(result.results[0].variants?.map(v => v.format)).toEqual(['avif', 'webp', 'jpeg']);
+    expect(Object.keys(result.formatTotals || {})).toHaveLength(3);
+
+    const outputFiles = await fs.readdir(tempOutputDir);
+    expect(outputFiles).toContain('hero.avif');
+    expect(outputFiles).toContain('hero.webp');
+    expect(outputFiles).toContain('hero.jpg');
+
+    const mapping = await fs.readJson(path.join(tempOutputDir, 'filename-mapping.json'));
+    expect(mapping.images['hero.jpg'].formats).toEqual({
+      avif: 'hero.avif',
+      webp: 'hero.webp',
+      jpeg: 'hero.jpg'
+    });
+    
+    await fs.remove(testImagesDir);
+  }, 30000);
+
+  it('should skip existing WebP files that are already optimal', async () => {
+    const testImagesDir = path.join(__dirname, '../temp/existing-webp-images');
+    await fs.ensureDir(testImagesDir);
+    
+    await createTestImage(path.join(testImagesDir, 'badge.webp'), 'webp');
+    
+    const config: Partial<OptimizationConfig> = {
+      processing: {
+        concurrency: 1,
+        enableProgressReporting: false,
+        continueOnError: true
+      }
+    };
+
+    const batchProcessor = new BatchProcessor(config);
+    
+    const result = await batchProcessor.processDirectory({
+      sourceDirectory: testImagesDir,
+      outputDirectory: tempOutputDir
+    });
+
+    expect(result.totalImages).toBe(1);
+    expect(result.results[0].status).toBe('skipped');
+    expect(result.results[0].skipReason).toBe('already_optimal');
+    expect(result.skipReasons?.already_optimal).toBe(1);
+
+    // The source is kept in place of the re-encode
+    const source = await fs.readFile(path.join(testImagesDir, 'badge.webp'));
+    const output = await fs.readFile(path.join(tempOutputDir, 'badge.webp'));
+    expect(output.equals(source)).toBe(true);
+
+    // A resized width keeps its re-encode, the full-size source would not match its name
+    const resizedOutputDir = path.join(tempOutputDir, 'resized');
+    const resized = await new BatchProcessor({
+      ...config,
+      dimensions: { ...DEFAULT_CONFIG.dimensions, widths: [40] }
+    }).processImage(path.join(testImagesDir, 'badge.webp'), resizedOutputDir);
+    expect(resized.skipReason).toBeUndefined();
+    expect(resized.optimizedPath).toBe(path.join(resizedOutputDir, 'badge-40w.webp'));
+    const sharp = require('sharp');
+    expect((await sharp(resized.optimizedPath).metadata()).width).toBe(40);
+    
+    await fs.remove(testImagesDir);
+  }, 30000);
+
+  it('should keep smaller WebP re-encodes that stay close to the source and not rescan earlier outputs', async () => {
+    const testImagesDir = path.join(__dirname, '../temp/reencode-webp-images');
+    await fs.ensureDir(testImagesDir);
+    const sharp = require('sharp');
+
+    // A smooth gradient stored at maximum quality re-encodes much smaller with hardly any loss
+    const pixels = Buffer.alloc(256 * 256 * 3);
+    for (let i = 0; i < 256 * 256; i++) {
+      pixels[i * 3] = i % 256;
+      pixels[i * 3 + 1] = Math.floor(i / 256);
+      pixels[i * 3 + 2] = 128;
+    }
+    await sharp(pixels, { raw: { width: 256, height: 256, channels: 3 } })
+      .webp({ quality: 100 })
+      .toFile(path.join(testImagesDir, 'gradient.webp'));
+
+    const config: Partial<OptimizationConfig> = {
+      processing: { concurrency: 1, enableProgressReporting: false, continueOnError: true }
+    };
+    const firstOutput = path.join(testImagesDir, 'optimized');
+    const first = await new BatchProcessor(config).processDirectory({ sourceDirectory: testImagesDir, outputDirectory: firstOutput });
+    expect(first.totalImages).toBe(1);
+    expect(first.results[0].status).toBe('success');
+    expect(first.results[0].optimizedSize).toBeLessThan(first.results[0].originalSize);
+
+    // A second run into another directory only sees the source, not the first run's output
+    const second = await new BatchProcessor(config).processDirectory({
+      sourceDirectory: testImagesDir,
+      outputDirectory: path.join(testImagesDir, 'optimized-again')
+    });
+    expect(second.totalImages).toBe(1);
+    expect(second.results[0].originalPath).toBe(path.join(testImagesDir, 'gradient.webp'));
+
+    await fs.remove(testImagesDir);
+  }, 30000);
+
+  it('should write responsive widths without upscaling', async () => {
+    const testImagesDir = path.join(__dirname, '../temp/responsive-images');
+    await fs.ensureDir(testImagesDir);
+    
+    await createTestImage(path.join(testImagesDir, 'hero.jpg'), 'jpeg');
+    
+    const config: Partial<OptimizationConfig> = {
+      dimensions: {
+        maxWidth: 1920,
+        maxHeight: 1080,
+        preserveAspectRatio: true,
+        widths: [40, 80, 160, 320]
+      },
+      processing: {
+        concurrency: 1,
+        enableProgressReporting: false,
+        continueOnError: true
+      }
+    };
+
+    const batchProcessor = new BatchProcessor(config);
+    
+    const result = await batchProcessor.processDirectory({
+      sourceDirectory: testImagesDir,
+      outputDirectory: tempOutputDir
+    });
+
+    // The 100px source caps 160w and 320w at a single 100w rendering
+    expect(result.totalImages).toBe(1);
+    expect(result.results[0].size?.descriptor).toBe('40w');
+    expect(result.results[0].sizeVariants?.map(v => v.size?.descriptor)).toEqual(['80w', '100w']);
+
+    const outputFiles = await fs.readdir(tempOutputDir);
+    expect(outputFiles).toContain('hero-40w.webp');
+    expect(outputFiles).toContain('hero-80w.webp');
+    expect(outputFiles).toContain('hero-100w.webp');
+    expect(outputFiles).not.toContain('hero-160w.webp');
+
+    const mapping = await fs.readJson(path.join(tempOutputDir, 'filename-mapping.json'));
+    expect(mapping.mapping['hero.jpg']).toBe('hero-40w.webp');
+    expect(mapping.images['hero.jpg'].srcset.webp).toBe('hero-40w.webp 40w, hero-80w.webp 80w, hero-100w.webp 100w');
+
+    // A 160x80 sensor image rotated to 80x160 portrait stays under the 100px height cap
+    const portraitDir = path.join(testImagesDir, 'portrait');
+    const portraitOutputDir = path.join(tempOutputDir, 'portrait');
+    await fs.ensureDir(portraitDir);
+    const sharp = require('sharp');
+    await sharp({
+      create: { width: 160, height: 80, channels: 3, background: { r: 200, g: 120, b: 40 } }
+    }).jpeg().withMetadata({ orientation: 6 }).toFile(path.join(portraitDir, 'portrait.jpg'));
+
+    const portraitProcessor = new BatchProcessor({
+      ...config,
+      dimensions: { ...config.dimensions!, maxHeight: 100, widths: [40, 120, 160] }
+    });
+    const portrait = await portraitProcessor.processDirectory({
+      sourceDirectory: portraitDir,
+      outputDirectory: portraitOutputDir
+    });
+
+    expect(portrait.results[0].size).toEqual({ width: 40, height: 80, descriptor: '40w' });
+    expect(portrait.results[0].sizeVariants?.map(v => v.size)).toEqual([{ width: 50, height: 100, descriptor: '50w' }]);
+    const capped = await sharp(path.join(portraitOutputDir, 'portrait-50w.webp')).metadata();
+    expect([capped.width, capped.height]).toEqual([50, 100]);
+
+    await fs.remove(testImagesDir);
+  }, 30000);
+
+  it('should write density variants for paths with a display size', async () => {
+    const testImagesDir = path.join(__dirname, '../temp/density-images');
+    await fs.ensureDir(testImagesDir);
+    
+    await createTestImage(path.join(testImagesDir, 'avatar.jpg'), 'jpeg');
+    await createTestImage(path.join(testImagesDir, 'photo.jpg'), 'jpeg');
+    
+    const config: Partial<OptimizationConfig> = {
+      density: {
+        displaySizes: [{ pattern: 'avatar.*', width: 40 }],
+        densities: [1, 2, 3],
+        qualityStep: 5
+      },
+      processing: {
+        concurrency: 1,
+        enableProgressReporting: false,
+        continueOnError: true
+      }
+    };
+
+    const batchProcessor = new BatchProcessor(config);
+    
+    const result = await batchProcessor.processDirectory({
+      sourceDirectory: testImagesDir,
+      outputDirectory: tempOutputDir
+    });
+
+    const avatar = result.results.find(r => path.basename(r.originalPath) === 'avatar.jpg')!;
+    expect(avatar.size).toEqual({ width: 40, height: 40, descriptor: '1x' });
+
+    // 3x would need 120px from a 100px source
+    const [twoX, threeX] = avatar.sizeVariants!;
+    expect(twoX.size?.descriptor).toBe('2x');
+    expect(twoX.qualityScore).toBeLessThanOrEqual(avatar.qualityScore);
+    expect(threeX.status).toBe('skipped');
+    expect(threeX.skipReason).toBe('would_upscale');
+
+    const outputFiles = await fs.readdir(tempOutputDir);
+    expect(outputFiles).toContain('avatar@1x.webp');
+    expect(outputFiles).toContain('avatar@2x.webp');
+    expect(outputFiles).not.toContain('avatar@3x.webp');
+    expect(outputFiles).toContain('photo.webp');
+    
+    await fs.remove(testImagesDir);
+  }, 30000);
+
+  it('should rasterise SVG sources at each configured width', async () => {
+    const testImagesDir = path.join(__dirname, '../temp/svg-images');
+    await fs.ensureDir(testImagesDir);
+    
+    await fs.writeFile(
+      path.join(testImagesDir, 'logo.svg'),
+      '<svg xmlns="http://www.w3.org/2000/svg" width="100" height="50"><rect x="10" y="10" width="80" height="30" fill="#0055aa"/></svg>'
+    );
+    
+    const config: Partial<OptimizationConfig> = {
+      svg: {
+        widths: [200, 400],
+        densities: [1],
+        background: '#ffffff'
+      },
+      // Explicit raster widths are not capped by the dimension constraints
+      dimensions: {
+        maxWidth: 300,
+        maxHeight: 300,
+        preserveAspectRatio: true
+      },
+      processing: {
+        concurrency: 1,
+        enableProgressReporting: false,
+        continueOnError: true
+      }
+    };
+
+    const batchProcessor = new BatchProcessor(config);
+    
+    const result = await batchProcessor.processDirectory({
+      sourceDirectory: testImagesDir,
+      outputDirectory: tempOutputDir
+    });
+
+    expect(result.totalImages).toBe(1);
+    expect(result.results[0].status).toBe('success');
+    expect(result.results[0].size).toEqual({ width: 200, height: 100, descriptor: '200w' });
+    expect(result.results[0].sizeVariants?.map(v => v.size?.descriptor)).toEqual(['400w']);
+
+    const outputFiles = await fs.readdir(tempOutputDir);
+    expect(outputFiles).toContain('logo-200w.webp');
+    expect(outputFiles).toContain('logo-400w.webp');
+    const sharp = require('sharp');
+    const widest = await sharp(path.join(tempOutputDir, 'logo-400w.webp')).metadata();
+    expect([widest.width, widest.height]).toEqual([400, 200]);
+    
+    await fs.remove(testImagesDir);
+  }, 30000);
+
+  it('should write one cropped output per crop preset', async () => {
+    const testImagesDir = path.join(__dirname, '../temp/crop-images');
+    await fs.ensureDir(testImagesDir);
+    
+    await createTestImage(path.join(testImagesDir, 'photo.jpg'), 'jpeg');
+    
+    const config: Partial<OptimizationConfig> = {
+      crop: {
+        presets: ['square', 'card'],
+        strategy: 'entropy'
+      },
+      processing: {
+        concurrency: 1,
+        enableProgressReporting: false,
+        continueOnError: true
+      }
+    };
+
+    const batchProcessor = new BatchProcessor(config);
+    
+    const result = await batchProcessor.processDirectory({
+      sourceDirectory: testImagesDir,
+      outputDirectory: tempOutputDir
+    });
+
+    const [square, card] = result.results[0].cropVariants!;
+    expect(square.crop).toMatchObject({ preset: 'square', aspectRatio: '1:1', strategy: 'entropy' });
+    expect(square.crop?.region).toEqual({ left: 0, top: 0, width: 100, height: 100 });
+    expect(card.crop?.region.width).toBe(100);
+    expect(card.crop?.region.height).toBe(56);
+
+    const outputFiles = await fs.readdir(tempOutputDir);
+    expect(outputFiles).toContain('photo.webp');
+    expect(outputFiles).toContain('photo-square.webp');
+    expect(outputFiles).toContain('photo-card.webp');
+
+    // A focal point at the bottom edge pushes the region down as far as it goes
+    const converter = new WebPConverter();
+    const focused = await converter.convertToFormat(
+      path.join(testImagesDir, 'photo.jpg'),
+      path.join(tempOutputDir, 'photo-focused.webp'),
+      'webp',
+      80,
+      1920,
+      1080,
+      { crop: { preset: 'card', aspectRatio: '16:9', strategy: 'attention', focalPoint: { x: 0.5, y: 1 } } }
+    );
+    expect(focused.crop).toMatchObject({ strategy: 'focal_point', region: { left: 0, top: 44, width: 100, height: 56 } });
+    
+    await fs.remove(testImagesDir);
+  }, 30000);
+
+  it('should crop around focal points from sidecars and the central file', async () => {
+    const testImagesDir = path.join(__dirname, '../temp/focal-images');
+    await fs.ensureDir(testImagesDir);
+    
+    await createTestImage(path.join(testImagesDir, 'team.jpg'), 'jpeg');
+    await createTestImage(path.join(testImagesDir, 'venue.jpg'), 'jpeg');
+    await fs.writeJson(path.join(testImagesDir, 'team.jpg.focus.json'), { x: 0.5, y: 0 });
+    const mapFile = path.join(__dirname, '../temp/focal-points.json');
+    await fs.writeJson(mapFile, { 'team.jpg': { x: 0.5, y: 0.5 }, '*.jpg': { x: 0.5, y: 1 } });
+    
+    const config: Partial<OptimizationConfig> = {
+      crop: {
+        presets: ['card'],
+        strategy: 'attention'
+      },
+      focalPoints: {
+        mapFile,
+        sidecarSuffix: '.focus.json'
+      },
+      processing: {
+        concurrency: 1,
+        enableProgressReporting: false,
+        continueOnError: true
+      }
+    };
+
+    const batchProcessor = new BatchProcessor(config);
+    
+    const result = await batchProcessor.processDirectory({
+      sourceDirectory: testImagesDir,
+      outputDirectory: tempOutputDir
+    });
+
+    // The sidecar wins over the central file's exact entry
+    const team = result.results.find(r => path.basename(r.originalPath) === 'team.jpg')!;
+    expect(team.focalPoint).toEqual({ x: 0.5, y: 0 });
+    expect(team.cropVariants![0].crop).toMatchObject({ strategy: 'focal_point', region: { top: 0, height: 56 } });
+
+    const venue = result.results.find(r => path.basename(r.originalPath) === 'venue.jpg')!;
+    expect(venue.focalPoint).toEqual({ x: 0.5, y: 1 });
+    expect(venue.cropVariants![0].crop?.region.top).toBe(44);
+
+    const mapping = await fs.readJson(path.join(tempOutputDir, 'filename-mapping.json'));
+    expect(mapping.images['venue.jpg'].objectPosition).toBe('50% 100%');
+    
+    await fs.remove(testImagesDir);
+    await fs.remove(mapFile);
+  }, 30000);
+
+  it('should apply path rules per folder and record the matched rule', async () => {
+    const testImagesDir = path.join(__dirname, '../temp/rule-images');
+    await fs.ensureDir(path.join(testImagesDir, 'photos'));
+    await fs.ensureDir(path.join(testImagesDir, 'icons'));
+    
+    await createTestImage(path.join(testImagesDir, 'photos', 'beach.jpg'), 'jpeg');
+    await createTestImage(path.join(testImagesDir, 'icons', 'star.png'), 'png');
+    
+    const config: Partial<OptimizationConfig> = {
+      rules: {
+        entries: [
+          { pattern: 'photos/**', quality: 95, maxWidth: 50 },
+          { pattern: 'icons/**', name: 'icons', mode: 'lossless', formats: ['png'] },
+          { pattern: '**', name: 'everything else', strategy: 'size_optimized' }
+        ],
+        match: 'first'
+      },
+      processing: {
+        concurrency: 1,
+        enableProgressReporting: false,
+        continueOnError: true
+      }
+    };
+
+    const batchProcessor = new BatchProcessor(config);
+    
+    const result = await batchProcessor.processDirectory({
+      sourceDirectory: testImagesDir,
+      outputDirectory: tempOutputDir
+    });
+
+    const beach = result.results.find(r => path.basename(r.originalPath) === 'beach.jpg')!;
+    expect(beach.rule).toBe('photos/**');
+    expect(beach.qualityScore).toBe(95);
+    const sharp = require('sharp');
+    const beachOutput = await sharp(beach.optimizedPath).metadata();
+    expect(beachOutput.width).toBe(50);
+
+    const star = result.results.find(r => path.basename(r.originalPath) === 'star.png')!;
+    expect(star.rule).toBe('icons');
+    expect(star.format).toBe('png');
+    expect(star.encodingMode).toBe('lossless');
+
+    // The most specific pattern wins regardless of order when configured
+    const specificProcessor = new BatchProcessor({
+      rules: {
+        entries: [
+          { pattern: '**', name: 'everything' },
+          { pattern: 'photos/*.jpg', name: 'photos' }
+        ],
+        match: 'most_specific'
+      }
+    });
+    const specific = await specificProcessor.processImage(
+      path.join(testImagesDir, 'photos', 'beach.jpg'),
+      path.join(tempOutputDir, 'specific'),
+      testImagesDir
+    );
+    expect(specific.rule).toBe('photos');
+    
+    await fs.remove(testImagesDir);
+  }, 30000);
+
+  it('should resize with the configured fit mode and upscaling limit', async () => {
+    const testImagesDir = path.join(__dirname, '../temp/fit-images');
+    await fs.ensureDir(testImagesDir);
+    const sourcePath = path.join(testImagesDir, 'square.png');
+    await createTestImage(sourcePath, 'png');
+    const sharp = require('sharp');
+    const converter = new WebPConverter();
+
+    // contain pads the 100x100 source into the 80x40 box
+    const contained = await converter.convertToFormat(sourcePath, path.join(tempOutputDir, 'contain.webp'), 'webp', 80, 80, 40, {
+      resize: { fit: 'contain', background: '#000000' }
+    });
+    expect(contained.status).toBe('success');
+    expect(await sharp(contained.optimizedPath).metadata()).toMatchObject({ width: 80, height: 40 });
+
+    // fill stretches to the box
+    const filled = await converter.convertToFormat(sourcePath, path.join(tempOutputDir, 'fill.webp'), 'webp', 80, 80, 40, {
+      resize: { fit: 'fill' }
+    });
+    expect(await sharp(filled.optimizedPath).metadata()).toMatchObject({ width: 80, height: 40 });
+
+    // inside enlarges small sources only up to the limit
+    const enlarged = await converter.convertToFormat(sourcePath, path.join(tempOutputDir, 'upscale.webp'), 'webp', 80, 400, 400, {
+      resize: { fit: 'inside', maxUpscale: 2, kernel: 'mitchell' }
+    });
+    expect(await sharp(enlarged.optimizedPath).metadata()).toMatchObject({ width: 200, height: 200 });
+
+    // cover goes through the smart crop in batch processing
+    const batchProcessor = new BatchProcessor({
+      dimensions: { maxWidth: 80, maxHeight: 40, preserveAspectRatio: true, fit: 'cover' }
+    });
+    const covered = await batchProcessor.processImage(sourcePath, path.join(tempOutputDir, 'cover'));
+    expect(covered.crop).toMatchObject({ preset: 'cover', aspectRatio: '80:40', region: { width: 100, height: 50 } });
+    expect(await sharp(covered.optimizedPath).metadata()).toMatchObject({ width: 80, height: 40 });
+
+    // A 200x100 landscape stored with EXIF orientation 6 displays as a portrait and keeps its proportions
+    const rotatedPath = path.join(testImagesDir, 'rotated.jpg');
+    await sharp({ create: { width: 200, height: 100, channels: 3, background: { r: 40, g: 120, b: 200 } } })
+      .withMetadata({ orientation: 6 })
+      .jpeg()
+      .toFile(rotatedPath);
+    expect(await converter.getRenderSize(rotatedPath, 60, 60)).toMatchObject({ width: 30, height: 60 });
+    const rotated = await converter.convertToFormat(rotatedPath, path.join(tempOutputDir, 'rotated.webp'), 'webp', 80, 60, 60);
+    expect(await sharp(rotated.optimizedPath).metadata()).toMatchObject({ width: 30, height: 60 });
+
+    await fs.remove(testImagesDir);
+  }, 30000);
+
+  it('should keep only the metadata the policy allows and report what was removed', async () => {
+    const testImagesDir = path.join(__dirname, '../temp/metadata-images');
+    await fs.ensureDir(testImagesDir);
+    const sourcePath = path.join(testImagesDir, 'camera.jpg');
+    const sharp = require('sharp');
+    await sharp({ create: { width: 100, height: 100, channels: 3, background: { r: 40, g: 120, b: 200 } } })
+      .withMetadata({
+        exif: {
+          IFD0: { Make: 'TestCam', Artist: 'Jo Doe', Copyright: 'ACME Ltd' },
+          IFD3: { GPSLatitudeRef: 'N' }
+        }
+      })
+      .jpeg({ quality: 90 })
+      .toFile(sourcePath);
+    const converter = new WebPConverter();
+
+    const stripped = await converter.convertToFormat(sourcePath, path.join(tempOutputDir, 'strip.webp'), 'webp', 80);
+    expect(stripped.metadata?.policy).toBe('strip');
+    expect(stripped.metadata?.removed).toEqual(expect.arrayContaining(['exif', 'copyright', 'gps']));
+    expect((await sharp(stripped.optimizedPath).metadata()).exif).toBeUndefined();
+
+    const withoutGps = await converter.convertToFormat(sourcePath, path.join(tempOutputDir, 'no-gps.webp'), 'webp', 80, 1920, 1080, {
+      metadata: 'no_gps'
+    });
+    expect(withoutGps.metadata?.removed).toEqual(['gps']);
+    expect((await sharp(withoutGps.optimizedPath).metadata()).exif.toString('latin1')).toContain('TestCam');
+
+    const copyright = await converter.convertToFormat(sourcePath, path.join(tempOutputDir, 'copyright.jpg'), 'jpeg', 80, 1920, 1080, {
+      metadata: 'copyright'
+    });
+    expect(copyright.metadata?.removed).toEqual(expect.arrayContaining(['exif', 'gps']));
+    expect(copyright.metadata?.removed).not.toContain('copyright');
+    const copyrightExif = (await sharp(copyright.optimizedPath).metadata()).exif.toString('latin1');
+    expect(copyrightExif).toContain('ACME Ltd');
+    expect(copyrightExif).not.toContain('TestCam');
+
+    // XMP keeps only creator and rights properties under the copyright policy, everything but GPS under no_gps
+    const xmpSourcePath = path.join(testImagesDir, 'described.jpg');
+    const xmp = Buffer.from('http://ns.adobe.com/xap/1.0/\0<x:xmpmeta xmlns:x="adobe:ns:meta/">' +
+      '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#"><rdf:Description rdf:about=""' +
+      ' xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:xmp="http://ns.adobe.com/xap/1.0/"' +
+      ' xmlns:xmpRights="http://ns.adobe.com/xap/1.0/rights/" xmlns:exif="http://ns.adobe.com/exif/1.0/"' +
+      ' xmp:CreatorTool="TestCam Studio" xmpRights:Marked="True" exif:GPSLatitude="51,30.0N">' +
+      '<dc:rights><rdf:Alt><rdf:li xml:lang="x-default">ACME Ltd</rdf:li></rdf:Alt></dc:rights>' +
+      '<dc:creator><rdf:Seq><rdf:li>Jo Doe</rdf:li></rdf:Seq></dc:creator>' +
+      '<dc:description><rdf:Alt><rdf:li xml:lang="x-default">Holiday</rdf:li></rdf:Alt></dc:description>' +
+      '</rdf:Description></rdf:RDF></x:xmpmeta>', 'latin1');
+    const xmpSegment = Buffer.from([0xff, 0xe1, 0, 0]);
+    xmpSegment.writeUInt16BE(xmp.length + 2, 2);
+    const plain = await sharp({ create: { width: 100, height: 100, channels: 3, background: { r: 40, g: 120, b: 200 } } }).jpeg().toBuffer();
+    await fs.writeFile(xmpSourcePath, Buffer.concat([plain.subarray(0, 2), xmpSegment, xmp, plain.subarray(2)]));
+
+    const rightsOnly = await converter.convertToFormat(xmpSourcePath, path.join(tempOutputDir, 'described.webp'), 'webp', 80, 1920, 1080, {
+      metadata: 'copyright'
+    });
+    const rightsXmp = (await sharp(rightsOnly.optimizedPath).metadata()).xmp.toString('latin1');
+    expect(rightsXmp).toContain('ACME Ltd');
+    expect(rightsXmp).toContain('Jo Doe');
+    expect(rightsXmp).toContain('xmpRights:Marked="True"');
+    expect(rightsXmp).not.toContain('TestCam Studio');
+    expect(rightsXmp).not.toContain('Holiday');
+    expect(rightsXmp).not.toContain('GPSLatitude');
+
+    const describedWithoutGps = await converter.convertToFormat(xmpSourcePath, path.join(tempOutputDir, 'described.jpg'), 'jpeg', 80, 1920, 1080, {
+      metadata: 'no_gps'
+    });
+    const fullXmp = (await sharp(describedWithoutGps.optimizedPath).metadata()).xmp.toString('latin1');
+    expect(fullXmp).toContain('TestCam Studio');
+    expect(fullXmp).toContain('Holiday');
+    expect(fullXmp).not.toContain('GPSLatitude');
+
+    // Formats without container rewriting are always stripped
+    const avif = await converter.convertToFormat(sourcePath, path.join(tempOutputDir, 'no-gps.avif'), 'avif', 80, 1920, 1080, {
+      metadata: 'no_gps'
+    });
+    expect(avif.metadata?.removed).toContain('gps');
+
+    await fs.remove(testImagesDir);
+  }, 30000);
+
+  it('should recompress JPEG sources to JPEG XL with cjxl and encode normally without it', async () => {
+    const testImagesDir = path.join(__dirname, '../temp/jxl-images');
+    const toolDir = path.join(testImagesDir, 'bin');
+    await fs.ensureDir(toolDir);
+    const sourcePath = path.join(testImagesDir, 'photo.jpg');
+    const sharp = require('sharp');
+    await sharp({ create: { width: 64, height: 64, channels: 3, background: { r: 40, g: 120, b: 200 } } })
+      .jpeg({ quality: 90 })
+      .toFile(sourcePath);
+    const converter = new WebPConverter();
+    const options = { losslessJpegRecompression: true };
+    const originalPath = process.env.PATH;
+
+    try {
+      // Stand-in cjxl that records its arguments and stores the bitstream unchanged
+      const argsPath = path.join(testImagesDir, 'cjxl-args.txt');
+      await fs.writeFile(path.join(toolDir, 'cjxl'), `#!/bin/sh\necho "$@" > "${argsPath}"\ncp "$1" "$2"\n`, { mode: 0o755 });
+      process.env.PATH = `${toolDir}${path.delimiter}${originalPath}`;
+
+      const recompressed = await converter.convertToFormat(sourcePath, path.join(tempOutputDir, 'cjxl.jxl'), 'jxl', 80, 1920, 1080, options);
+      expect(recompressed.status).toBe('success');
+      expect(recompressed.losslessRecompression).toBe(true);
+      expect(recompressed.encodingMode).toBe('lossless');
+      expect(await fs.readFile(argsPath, 'utf8')).toContain('--lossless_jpeg=1');
+
+      // Without cjxl the JPEG is decoded and encoded like any other source, never flagged as recompressed
+      await fs.remove(path.join(toolDir, 'cjxl'));
+      process.env.PATH = toolDir;
+      const fallback = await converter.convertToFormat(sourcePath, path.join(tempOutputDir, 'fallback.jxl'), 'jxl', 80, 1920, 1080, options);
+      expect(fallback.losslessRecompression).toBeUndefined();
+      if (sharp.format.jxl?.output.file) {
+        expect(fallback.status).toBe('success');
+        expect(fallback.encodingMode).toBe('lossy');
+      } else {
+        expect(fallback.status).toBe('failed');
+        expect(fallback.errorMessage).toContain('JXL');
+      }
+    } finally {
+      process.env.PATH = originalPath;
+      await fs.remove(testImagesDir);
+    }
+  }, 30000);
+
+  it('should strip location data from JPEG XL recompressions of GPS-tagged JPEGs', async () => {
+    const testImagesDir = path.join(__dirname, '../temp/jxl-gps-images');
+    const toolDir = path.join(testImagesDir, 'bin');
+    await fs.ensureDir(toolDir);
+    const sourcePath = path.join(testImagesDir, 'located.jpg');
+    const sharp = require('sharp');
+    await sharp({ create: { width: 64, height: 64, channels: 3, background: { r: 40, g: 120, b: 200 } } })
+      .withMetadata({ exif: { IFD0: { Make: 'TestCam' }, IFD3: { GPSLatitudeRef: 'N' } } })
+      .jpeg({ quality: 90 })
+      .toFile(sourcePath);
+    const originalPath = process.env.PATH;
+
+    try {
+      // Stand-in cjxl that writes a JPEG XL signature Sharp cannot decode, and copies the source when not asked to strip
+      await fs.writeFile(
+        path.join(toolDir, 'cjxl'),
+        '#!/bin/sh\ncase "$*" in *strip=exif*strip=xmp*) printf \'\\377\\012\' > "$2" ;; *) cp "$1" "$2" ;; esac\n',
+        { mode: 0o755 }
+      );
+      process.env.PATH = `${toolDir}${path.delimiter}${originalPath}`;
+
+      const result = await new WebPConverter().convertToFormat(sourcePath, path.join(tempOutputDir, 'located.jxl'), 'jxl', 80, 1920, 1080, {
+        losslessJpegRecompression: true,
+        metadata: 'strip'
+      });
+      expect(result.status).toBe('success');
+      expect(result.losslessRecompression).toBe(true);
+      expect(result.metadata).toEqual({ policy: 'strip', removed: expect.arrayContaining(['exif', 'gps']) });
+      expect((await fs.readFile(result.optimizedPath)).toString('latin1')).not.toContain('TestCam');
+    } finally {
+      process.env.PATH = originalPath;
+      await fs.remove(testImagesDir);
+    }
+  }, 30000);
+
+  it('should convert wide-gamut sources to sRGB or keep them in Display P3', async () => {
+    const testImagesDir = path.join(__dirname, '../temp/color-images');
+    await fs.ensureDir(testImagesDir);
+    const sharp = require('sharp');
+
+    // Pure P3 green lies outside sRGB: tag a base image as P3, then paint raw green over it without conversion
+    const basePath = path.join(testImagesDir, 'base.png');
+    const sourcePath = path.join(testImagesDir, 'p3-green.png');
+    await sharp({ create: { width: 64, height: 64, channels: 3, background: { r: 128, g: 128, b: 128 } } })
+      .withMetadata({ icc: 'p3' })
+      .png()
+      .toFile(basePath);
+    const green = await sharp({ create: { width: 64, height: 64, channels: 3, background: { r: 0, g: 255, b: 0 } } }).png().toBuffer();
+    await sharp(basePath, { ignoreIcc: true })
+      .composite([{ input: green }])
+      .withMetadata({ icc: 'p3' })
+      .png()
+      .toFile(sourcePath);
+    const converter = new WebPConverter();
+
+    const srgb = await converter.convertToFormat(sourcePath, path.join(tempOutputDir, 'srgb.webp'), 'webp', 80);
+    expect(srgb.color).toMatchObject({ gamut: 'display_p3', output: 'srgb', clipped: true });
+    expect(srgb.color!.clippedPercent).toBeGreaterThan(90);
+
+    // The P3 output keeps its profile even though the metadata policy strips everything else
+    const p3 = await converter.convertToFormat(sourcePath, path.join(tempOutputDir, 'p3.webp'), 'webp', 80, 1920, 1080, {
+      color: { output: 'display_p3' }
+    });
+    expect(p3.color).toMatchObject({ gamut: 'display_p3', output: 'display_p3', clippedPercent: 0, clipped: false });
+    expect((await converter.getColorProfile(p3.optimizedPath))?.gamut).toBe('display_p3');
+    expect(p3.metadata?.removed).not.toContain('icc');
+
+    // Adobe RGB (180, 120, 90) is (188.5, 124.5, 94.1) in Display P3, not the same values re-tagged
+    const profilePath = path.join(testImagesDir, 'adobe-rgb.icc');
+    const adobePath = path.join(testImagesDir, 'adobe.png');
+    await fs.writeFile(profilePath, createMatrixProfile('Adobe RGB (1998)', [
+      [0.60974, 0.31111, 0.01947],
+      [0.20528, 0.62567, 0.06087],
+      [0.14919, 0.06322, 0.74457]
+    ], 563 / 256));
+    const pixel = sharp({ create: { width: 16, height: 16, channels: 3, background: { r: 180, g: 120, b: 90 } } }).png();
+    const adobeBase = await pixel.clone().withMetadata({ icc: profilePath }).toBuffer();
+    await sharp(adobeBase, { ignoreIcc: true })
+      .composite([{ input: await pixel.toBuffer() }])
+      .withMetadata({ icc: profilePath })
+      .toFile(adobePath);
+    expect((await converter.getColorProfile(adobePath))?.gamut).toBe('adobe_rgb');
+    expect([...(await sharp(adobePath, { ignoreIcc: true }).raw().toBuffer()).subarray(0, 3)]).toEqual([180, 120, 90]);
+
+    const adobe = await converter.convertToFormat(adobePath, path.join(tempOutputDir, 'adobe.webp'), 'webp', 100, 1920, 1080, {
+      color: { output: 'display_p3' },
+      encodingMode: 'lossless'
+    });
+    expect(adobe.color).toMatchObject({ gamut: 'adobe_rgb', output: 'display_p3' });
+    expect((await converter.getColorProfile(adobe.optimizedPath))?.gamut).toBe('display_p3');
+    const converted = await sharp(adobe.optimizedPath, { ignoreIcc: true }).raw().toBuffer();
+    [188.5, 124.5, 94.1].forEach((expected, channel) => expect(Math.abs(converted[channel] - expected)).toBeLessThanOrEqual(2));
+
+    await fs.remove(testImagesDir);
+  }, 30000);
+
+  it('should develop DNG sources with per-image overrides from sidecars', async () => {
+    const testImagesDir = path.join(__dirname, '../temp/dng-images');
+    await fs.ensureDir(testImagesDir);
+    const sharp = require('sharp');
+
+    // TIFF data with a blue cast, detected as DNG from its extension
+    const castPath = path.join(testImagesDir, 'cast.dng');
+    const plainPath = path.join(testImagesDir, 'plain.dng');
+    for (const sourcePath of [castPath, plainPath]) {
+      await sharp({ create: { width: 64, height: 64, channels: 3, background: { r: 90, g: 110, b: 160 } } })
+        .tiff()
+        .toFile(sourcePath);
+    }
+    await fs.writeJson(`${castPath}.develop.json`, { whiteBalance: 'auto', exposure: 1 });
+
+    const batchProcessor = new BatchProcessor({ dng: { ...DEFAULT_CONFIG.dng, toneCurve: 'linear' } });
+
+    // The sidecar switches to auto white balance, which neutralises the cast
+    const developed = await batchProcessor.processImage(castPath, tempOutputDir);
+    expect(developed.development).toMatchObject({ whiteBalance: 'auto', exposure: 1, toneCurve: 'linear' });
+    expect(developed.development!.multipliers[2]).toBeLessThan(1);
+    const { channels } = await sharp(developed.optimizedPath).stats();
+    expect(Math.abs(channels[0].mean - channels[2].mean)).toBeLessThan(8);
+
+    // Without a sidecar the rendered data keeps its as-shot colours
+    const plain = await batchProcessor.processImage(plainPath, tempOutputDir);
+    expect(plain.development).toMatchObject({ whiteBalance: 'as_shot', exposure: 0, multipliers: [1, 1, 1] });
+    const plainStats = await sharp(plain.optimizedPath).stats();
+    expect(plainStats.channels[2].mean - plainStats.channels[0].mean).toBeGreaterThan(40);
+
+    // Camera layout: the 64x48 linear raw SubIFD is developed with the as-shot neutral, not the 16x12 thumbnail in IFD0
+    const cameraPath = path.join(testImagesDir, 'camera.dng');
+    await createDng(cameraPath, {
+      width: 16,
+      height: 12,
+      rawWidth: 64,
+      rawHeight: 48,
+      color: { r: 90, g: 110, b: 160 },
+      asShotNeutral: [0.5, 1, 0.8]
+    });
+    const camera = await batchProcessor.processImage(cameraPath, tempOutputDir);
+    expect(camera.status).toBe('success');
+    expect(camera.development).toMatchObject({ whiteBalance: 'as_shot', multipliers: [2, 1, 1.25] });
+    const { data: cameraPixels, info: cameraInfo } = await sharp(camera.optimizedPath).raw().toBuffer({ resolveWithObject: true });
+    expect([cameraInfo.width, cameraInfo.height]).toEqual([64, 48]);
+
+    // Linear (90, 110, 160) / 255 times the gains, display-encoded through the linear tone curve
+    const expected = [90 * 2, 110, 160 * 1.25].map(value => 255 * Math.pow(value / 255, 1 / 2.2));
+    expected.forEach((value, channel) => expect(Math.abs(cameraPixels[channel] - value)).toBeLessThan(6));
+
+    await fs.remove(testImagesDir);
+  }, 30000);
+
+  it('should render DNG sources from their embedded preview when it covers the output size', async () => {
+    const testImagesDir = path.join(__dirname, '../temp/dng-preview-images');
+    await fs.ensureDir(testImagesDir);
+    const sharp = require('sharp');
+
+    // Blue 256x256 raw data with a red 128x128 JPEG preview in a chained IFD
+    const raw: Buffer = await sharp({ create: { width: 256, height: 256, channels: 3, background: { r: 40, g: 60, b: 200 } } })
+      .tiff()
+      .toBuffer();
+    const preview: Buffer = await sharp({ create: { width: 128, height: 128, channels: 3, background: { r: 200, g: 40, b: 40 } } })
+      .jpeg()
+      .toBuffer();
+    expect(raw.toString('ascii', 0, 2)).toBe('II');
+    const previewOffset = raw.length;
+    const ifdOffset = previewOffset + preview.length + (preview.length % 2);
+    const ifd = Buffer.alloc(2 + 4 * 12 + 4);
+    ifd.writeUInt16LE(4, 0);
+    [[0x00fe, 4, 1], [0x0103, 3, 7], [0x0111, 4, previewOffset], [0x0117, 4, preview.length]].forEach(([tag, type, value], index) => {
+      ifd.writeUInt16LE(tag, 2 + index * 12);
+      ifd.writeUInt16LE(type, 4 + index * 12);
+      ifd.writeUInt32LE(1, 6 + index * 12);
+      ifd.writeUInt32LE(value, 10 + index * 12);
+    });
+    const ifd0 = raw.readUInt32LE(4);
+    raw.writeUInt32LE(ifdOffset, ifd0 + 2 + raw.readUInt16LE(ifd0) * 12);
+    const sourcePath = path.join(testImagesDir, 'shot.dng');
+    await fs.writeFile(sourcePath, Buffer.concat([raw, preview, Buffer.alloc(preview.length % 2), ifd]));
+
+    // A 100px output is covered by the preview, which is used instead of developing
+    const small = new BatchProcessor({
+      dimensions: { ...DEFAULT_CONFIG.dimensions, maxWidth: 100, maxHeight: 100 },
+      dng: { ...DEFAULT_CONFIG.dng, usePreview: true }
+    });
+    const fromPreview = await small.processImage(sourcePath, tempOutputDir);
+    expect(fromPreview.status).toBe('success');
+    expect(fromPreview.dngSource).toBe('preview');
+    expect(fromPreview.development).toBeUndefined();
+    expect(fromPreview.originalSize).toBe((await fs.stat(sourcePath)).size);
+    const previewStats = await sharp(fromPreview.optimizedPath).stats();
+    expect(previewStats.channels[0].mean).toBeGreaterThan(previewStats.channels[2].mean);
+
+    // A 200px output would upscale the preview, so the raw data is developed
+    const large = new BatchProcessor({
+      dimensions: { ...DEFAULT_CONFIG.dimensions, maxWidth: 200, maxHeight: 200 },
+      dng: { ...DEFAULT_CONFIG.dng, usePreview: true }
+    });
+    const developed = await large.processImage(sourcePath, tempOutputDir);
+    expect(developed.dngSource).toBe('developed');
+    expect(developed.development).toBeDefined();
+    const developedStats = await sharp(developed.optimizedPath).stats();
+    expect(developedStats.channels[2].mean).toBeGreaterThan(developedStats.channels[0].mean);
+
+    // Camera layout with a 64x64 thumbnail in IFD0: the preview is measured against the 256x256 raw image in the SubIFD
+    const cameraPath = path.join(testImagesDir, 'camera.dng');
+    await createDng(cameraPath, { width: 64, height: 64, rawWidth: 256, rawHeight: 256, color: { r: 40, g: 60, b: 200 }, preview });
+    expect((await small.processImage(cameraPath, tempOutputDir)).dngSource).toBe('preview');
+
+    // The 128px preview is too small for a 200px output, whose development reaches it from the raw image, not the thumbnail
+    const fullSize = await large.processImage(cameraPath, tempOutputDir);
+    expect(fullSize.status).toBe('success');
+    expect(fullSize.dngSource).toBe('developed');
+    const fullSizeMetadata = await sharp(fullSize.optimizedPath).metadata();
+    expect([fullSizeMetadata.width, fullSizeMetadata.height]).toEqual([200, 200]);
+
+    await fs.remove(testImagesDir);
+  }, 30000);
+
+  it('should composite a watermark after resizing unless a path rule turns it off', async () => {
+    const testImagesDir = path.join(__dirname, '../temp/watermark-images');
+    await fs.ensureDir(path.join(testImagesDir, 'sale'));
+    await fs.ensureDir(path.join(testImagesDir, 'free'));
+    const sharp = require('sharp');
+
+    await createTestImage(path.join(testImagesDir, 'sale', 'print.png'), 'png');
+    await createTestImage(path.join(testImagesDir, 'free', 'sample.png'), 'png');
+    const logoPath = path.join(testImagesDir, 'logo.png');
+    await sharp({ create: { width: 40, height: 40, channels: 4, background: { r: 0, g: 0, b: 255, alpha: 1 } } })
+      .png()
+      .toFile(logoPath);
+
+    const batchProcessor = new BatchProcessor({
+      dimensions: { ...DEFAULT_CONFIG.dimensions, maxWidth: 80, maxHeight: 80 },
+      watermark: { ...DEFAULT_CONFIG.watermark, enabled: true, image: logoPath, opacity: 1, scale: 0.25, margin: 0 },
+      rules: {
+        entries: [
+          { pattern: 'free/**', watermark: false, formats: ['png'] },
+          { pattern: '**', formats: ['png'] }
+        ],
+        match: 'first'
+      }
+    });
+    const pixel = async (file: string, left: number, top: number) =>
+      Array.from(await sharp(file).extract({ left, top, width: 1, height: 1 }).removeAlpha().raw().toBuffer() as Buffer);
+
+    // The 40px logo is scaled to a quarter of the 80px output and placed bottom right
+    const marked = await batchProcessor.processImage(path.join(testImagesDir, 'sale', 'print.png'), tempOutputDir, testImagesDir);
+    expect(marked.watermarked).toBe(true);
+    const [markRed, , markBlue] = await pixel(marked.optimizedPath, 75, 75);
+    expect(markBlue).toBeGreaterThan(200);
+    expect(markRed).toBeLessThan(50);
+    const [red, , blue] = await pixel(marked.optimizedPath, 55, 55);
+    expect(red).toBeGreaterThan(200);
+    expect(blue).toBeLessThan(50);
+
+    const unmarked = await batchProcessor.processImage(path.join(testImagesDir, 'free', 'sample.png'), tempOutputDir, testImagesDir);
+    expect(unmarked.watermarked).toBeUndefined();
+    const [cornerRed, , cornerBlue] = await pixel(unmarked.optimizedPath, 75, 75);
+    expect(cornerRed).toBeGreaterThan(200);
+    expect(cornerBlue).toBeLessThan(50);
+
+    await fs.remove(testImagesDir);
+  }, 30000);
+
+  it('should write LQIP, BlurHash and ThumbHash placeholders to the manifest', async () => {
+    const testImagesDir = path.join(__dirname, '../temp/placeholder-images');
+    await fs.ensureDir(testImagesDir);
+
+    await createTestImage(path.join(testImagesDir, 'hero.png'), 'png');
+
+    const batchProcessor = new BatchProcessor({
+      processing: {
+        concurrency: 1,
+        enableProgressReporting: false,
+        continueOnError: true
+      }
+    });
+
+    await batchProcessor.processDirectory({
+      sourceDirectory: testImagesDir,
+      outputDirectory: tempOutputDir
+    });
+
+    const { placeholders } = (await fs.readJson(path.join(tempOutputDir, 'filename-mapping.json'))).images['hero.png'];
+    expect(placeholders.lqip).toMatch(/^data:image\/webp;base64,/);
+    const sharp = require('sharp');
+    const lqip = await sharp(Buffer.from(placeholders.lqip.split(',')[1], 'base64')).metadata();
+    expect(Math.max(lqip.width, lqip.height)).toBeLessThanOrEqual(16);
+
+    // A square gets a 4x3 BlurHash: size flag 'L' and 28 characters
+    expect(placeholders.blurhash).toMatch(/^L/);
+    expect(placeholders.blurhash).toHaveLength(28);
+    expect(Buffer.from(placeholders.thumbhash, 'base64').length).toBeGreaterThanOrEqual(5);
+
+    await fs.remove(testImagesDir);
+  }, 30000);
+
+  it('should extract dominant and average colours and a palette into the manifest', async () => {
+    const testImagesDir = path.join(__dirname, '../temp/colour-images');
+    await fs.ensureDir(testImagesDir);
+    const sharp = require('sharp');
+
+    // Left half red, right half blue
+    const blue = await sharp({ create: { width: 50, height: 100, channels: 3, background: { r: 0, g: 0, b: 255 } } }).png().toBuffer();
+    await sharp({ create: { width: 100, height: 100, channels: 3, background: { r: 255, g: 0, b: 0 } } })
+      .composite([{ input: blue, left: 50, top: 0 }])
+      .png()
+      .toFile(path.join(testImagesDir, 'split.png'));
+
+    // Grey with alpha: the second channel is opacity, not green
+    await sharp({ create: { width: 20, height: 20, channels: 4, background: { r: 100, g: 100, b: 100, alpha: 0.8 } } })
+      .toColourspace('b-w')
+      .png()
+      .toFile(path.join(testImagesDir, 'shadow.png'));
+    expect((await sharp(path.join(testImagesDir, 'shadow.png')).metadata()).channels).toBe(2);
+
+    // 16-bit samples, CMYK channels and transparent pixels must not skew the average
+    await sharp({ create: { width: 20, height: 20, channels: 3, background: { r: 50, g: 100, b: 150 } } })
+      .toColourspace('rgb16')
+      .png()
+      .toFile(path.join(testImagesDir, 'deep.png'));
+    expect((await sharp(path.join(testImagesDir, 'deep.png')).metadata()).depth).toBe('ushort');
+    await sharp({ create: { width: 20, height: 20, channels: 3, background: { r: 200, g: 40, b: 40 } } })
+      .toColourspace('cmyk')
+      .jpeg({ quality: 100 })
+      .toFile(path.join(testImagesDir, 'print.jpg'));
+    const green = await sharp({ create: { width: 50, height: 100, channels: 4, background: { r: 0, g: 255, b: 0, alpha: 1 } } }).png().toBuffer();
+    await sharp({ create: { width: 100, height: 100, channels: 4, background: { r: 255, g: 0, b: 255, alpha: 0 } } })
+      .composite([{ input: green, left: 0, top: 0 }])
+      .png()
+      .toFile(path.join(testImagesDir, 'cutout.png'));
+
+    const batchProcessor = new BatchProcessor({
+      processing: {
+        concurrency: 1,
+        enableProgressReporting: false,
+        continueOnError: true
+      }
+    });
+
+    const result = await batchProcessor.processDirectory({
+      sourceDirectory: testImagesDir,
+      outputDirectory: tempOutputDir
+    });
+
+    const { colors } = result.results.find(r => r.originalPath.endsWith('split.png'))!;
+    expect(colors!.average).toBe('#800080');
+    expect(colors!.palette.slice(0, 2).sort()).toEqual(['#0000ff', '#ff0000']);
+    expect(['#f80808', '#0808f8']).toContain(colors!.dominant);
+
+    const mapping = await fs.readJson(path.join(tempOutputDir, 'filename-mapping.json'));
+    expect(mapping.images['split.png'].colors).toEqual(colors);
+
+    const grey = result.results.find(r => r.originalPath.endsWith('shadow.png'))!.colors!;
+    expect(grey.average).toBe('#646464');
+    expect(grey.palette[0]).toBe('#646464');
+
+    const colorOf = (name: string) => result.results.find(r => r.originalPath.endsWith(name))!.colors!;
+    expect(colorOf('deep.png').average).toBe('#326496');
+    expect(colorOf('cutout.png').average).toBe('#00ff00');
+    const print = colorOf('print.jpg').average;
+    expect(print).toBe(colorOf('print.jpg').palette[0]);
+    expect(parseInt(print.slice(1, 3), 16)).toBeGreaterThan(150);
+    expect(parseInt(print.slice(3, 5), 16)).toBeLessThan(100);
+
+    await fs.remove(testImagesDir);
+  }, 30000);
+
+  it('should search quality and then size to keep outputs within a byte budget', async () => {
+    const testImagesDir = path.join(__dirname, '../temp/budget-images');
+    await fs.ensureDir(path.join(testImagesDir, 'heroes'));
+    await fs.ensureDir(path.join(testImagesDir, 'icons'));
+    const sharp = require('sharp');
+
+    // Noise barely compresses, so even the minimum quality misses the budget at full size
+    const noise = Buffer.alloc(300 * 300 * 3);
+    let seed = 1;
+    for (let i = 0; i < noise.length; i++) {
+      seed = (seed * 16807) % 2147483647;
+      noise[i] = seed & 255;
+    }
+    await sharp(noise, { raw: { width: 300, height: 300, channels: 3 } }).png().toFile(path.join(testImagesDir, 'heroes', 'noise.png'));
+    await createTestImage(path.join(testImagesDir, 'icons', 'red.png'), 'png');
+
+    const batchProcessor = new BatchProcessor({
+      rules: {
+        entries: [
+          { pattern: 'heroes/**', targetBytes: 6000, formats: ['webp'] },
+          { pattern: 'icons/**', targetBytes: 1000000, formats: ['webp'] }
+        ],
+        match: 'first'
+      }
+    });
+
+    // A budget the content-based quality already meets takes a single encode
+    const icon = await batchProcessor.processImage(path.join(testImagesDir, 'icons', 'red.png'), tempOutputDir, testImagesDir);
+    expect(icon.status).toBe('success');
+    expect(icon.budget).toMatchObject({ targetBytes: 1000000, met: true, attempts: 1 });
+    expect(icon.budget!.downscaled).toBeUndefined();
+
+    const hero = await batchProcessor.processImage(path.join(testImagesDir, 'heroes', 'noise.png'), tempOutputDir, testImagesDir);
+    expect(hero.status).toBe('success');
+    expect(hero.budget!.met).toBe(true);
+    expect(hero.budget!.quality).toBe(DEFAULT_CONFIG.quality.minimum);
+    expect(Math.max(hero.budget!.downscaled!.width, hero.budget!.downscaled!.height)).toBeLessThan(300);
+    expect((await fs.stat(hero.optimizedPath)).size).toBeLessThanOrEqual(6000);
+    const { width } = await sharp(hero.optimizedPath).metadata();
+    expect(width).toBe(hero.budget!.downscaled!.width);
+
+    await fs.remove(testImagesDir);
+  }, 60000);
+
+  it('should encode at the lowest quality that meets a perceptual target and record the search', async () => {
+    const testImagesDir = path.join(__dirname, '../temp/perceptual-images');
+    await fs.ensureDir(path.join(testImagesDir, 'loose'));
+    await fs.ensureDir(path.join(testImagesDir, 'strict'));
+    const sharp = require('sharp');
+
+    // A diagonal gradient with fine detail that lossy encoding has to give up gradually
+    const pixels = Buffer.alloc(160 * 160 * 3);
+    for (let y = 0; y < 160; y++) {
+      for (let x = 0; x < 160; x++) {
+        const offset = (y * 160 + x) * 3;
+        pixels[offset] = x + y / 2;
+        pixels[offset + 1] = (x * y) % 256;
+        pixels[offset + 2] = (x ^ y) * 2 % 256;
+      }
+    }
+    const image = sharp(pixels, { raw: { width: 160, height: 160, channels: 3 } }).png();
+    // Distinct names, both outputs land in the same directory
+    await image.clone().toFile(path.join(testImagesDir, 'loose', 'loose.png'));
+    await image.clone().toFile(path.join(testImagesDir, 'strict', 'strict.png'));
+
+    const batchProcessor = new BatchProcessor({
+      rules: {
+        entries: [
+          { pattern: 'loose/**', targetSsim: 0.9, formats: ['webp'] },
+          { pattern: 'strict/**', targetSsim: 0.999, formats: ['webp'] }
+        ],
+        match: 'first'
+      }
+    });
+
+    const loose = await batchProcessor.processImage(path.join(testImagesDir, 'loose', 'loose.png'), tempOutputDir, testImagesDir);
+    const strict = await batchProcessor.processImage(path.join(testImagesDir, 'strict', 'strict.png'), tempOutputDir, testImagesDir);
+
+    for (const result of [loose, strict]) {
+      const { met, quality, score, trace, targetSsim } = result.perceptual!;
+      const chosen = trace.find(step => step.quality === quality)!;
+      expect(chosen.score).toBe(score);
+      expect(chosen.bytes).toBe((await fs.stat(result.optimizedPath)).size);
+      // The bisection ends between a quality that meets the target and the one just below that misses it
+      if (met) {
+        // Validation judges the output by the target it met, not the content-based quality it went below
+        expect(result.status).toBe('success');
+        expect(score).toBeGreaterThanOrEqual(targetSsim);
+        const below = trace.find(step => step.quality === quality - 1);
+        if (quality > 1) {
+          expect(below!.score).toBeLessThan(targetSsim);
+        }
+      } else {
+        expect(trace.every(step => step.score < targetSsim)).toBe(true);
+      }
+    }
+    expect(strict.perceptual!.quality).toBeGreaterThanOrEqual(loose.perceptual!.quality);
+
+    await fs.remove(testImagesDir);
+  }, 60000);
+
+  it('should measure windowed SSIM on aligned pixels and record it per result', async () => {
+    const testImagesDir = path.join(__dirname, '../temp/ssim-images');
+    await fs.ensureDir(testImagesDir);
+    const sharp = require('sharp');
+
+    // Shuffling the pixels keeps the mean and standard deviation, only the structure is lost
+    const width = 128;
+    const height = 128;
+    const pixels = Buffer.alloc(width * height * 3);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        pixels.fill(Math.round(127.5 + 127.5 * Math.sin(x / 6) * Math.cos(y / 9)), (y * width + x) * 3, (y * width + x + 1) * 3);
+      }
+    }
+    const shuffled = Buffer.from(pixels);
+    let seed = 7;
+    for (let i = width * height - 1; i > 0; i--) {
+      seed = (seed * 16807) % 2147483647;
+      const j = seed % (i + 1);
+      const pixel = Buffer.from(shuffled.subarray(i * 3, i * 3 + 3));
+      shuffled.copy(shuffled, i * 3, j * 3, j * 3 + 3);
+      pixel.copy(shuffled, j * 3);
+    }
+    const raw = { raw: { width, height, channels: 3 } };
+    const originalPath = path.join(testImagesDir, 'original.png');
+    const shuffledPath = path.join(testImagesDir, 'shuffled.png');
+    await sharp(pixels, raw).png().toFile(originalPath);
+    await sharp(shuffled, raw).png().toFile(shuffledPath);
+
+    const validator = new QualityValidator();
+    const identical = await validator.measureStructuralSimilarity(originalPath, originalPath);
+    expect(identical.ssim).toBeCloseTo(1, 5);
+    expect(identical.msSsim).toBeCloseTo(1, 5);
+
+    const validation = await validator.validateOutputQuality(originalPath, shuffledPath, 90);
+    expect(validation.metrics.structuralSimilarity).toBeLessThan(0.3);
+    expect(validation.isValid).toBe(false);
+    expect(validation.issues.some(issue => issue.startsWith('Low structural similarity'))).toBe(true);
+
+    // A comparison that cannot be made is an issue, not a plausible score
+    const corruptPath = path.join(testImagesDir, 'corrupt.png');
+    await fs.writeFile(corruptPath, 'not an image');
+    const failed = await validator.validateOutputQuality(originalPath, corruptPath, 90);
+    expect(failed.isValid).toBe(false);
+    expect(failed.metrics.structuralSimilarity).toBeNaN();
+    expect(failed.issues[0]).toContain('Quality comparison failed');
+
+    // A padded output is compared with a padded reference, so the bars do not count as differences
+    await sharp(pixels, raw).resize(256, 128).png().toFile(path.join(testImagesDir, 'wide.png'));
+    const batchProcessor = new BatchProcessor({
+      dimensions: { ...DEFAULT_CONFIG.dimensions, maxWidth: 100, maxHeight: 100, fit: 'contain', background: '#000000' }
+    });
+    const result = await batchProcessor.processImage(path.join(testImagesDir, 'wide.png'), tempOutputDir, testImagesDir);
+    expect(result.status).toBe('success');
+    expect(result.similarity!.ssim).toBeGreaterThan(0.9);
+    expect(result.similarity!.msSsim).toBeGreaterThan(0.9);
+    expect(result.variants![0].similarity).toEqual(result.similarity);
+
+    await fs.remove(testImagesDir);
+  }, 60000);
+
   it('should generate optimization report', async () => {
     const testImagesDir = path.join(__dirname, '../temp/report-test-images');
     await fs.ensureDir(testImagesDir);
@@ -157,12 +1347,173 @@ describe('Batch Processing Integration Tests', () => {
   }, 30000);
 });
 
+/**
+ * Write a DNG laid out like camera files: IFD0 holds an 8-bit RGB rendition and the DNG tags,
+ * a SubIFD the raw image (NewSubFileType 0, 16-bit LinearRaw) and another one an optional JPEG preview
+ */
+async function createDng(
+  filePath: string,
+  options: {
+    width: number;
+    height: number;
+    color: { r: number; g: number; b: number };
+    asShotNeutral?: [number, number, number];
+    rawWidth?: number;
+    rawHeight?: number;
+    preview?: Buffer;
+  }
+): Promise<void> {
+  const { width, height, color, asShotNeutral, rawWidth = width, rawHeight = height, preview = Buffer.alloc(0) } = options;
+  const sizes: Record<number, number> = { 1: 1, 3: 2, 4: 4, 5: 8 };
+  type Entry = [tag: number, type: number, values: number[]];
+
+  const rendition = Buffer.alloc(width * height * 3);
+  for (let i = 0; i < width * height; i++) {
+    rendition.set([color.r, color.g, color.b], i * 3);
+  }
+  const raw = Buffer.alloc(rawWidth * rawHeight * 6);
+  for (let i = 0; i < rawWidth * rawHeight; i++) {
+    raw.writeUInt16LE(color.r * 257, i * 6);
+    raw.writeUInt16LE(color.g * 257, i * 6 + 2);
+    raw.writeUInt16LE(color.b * 257, i * 6 + 4);
+  }
+
+  // Header, then pixel data, then the IFDs with their out-of-line values
+  const renditionOffset = 8;
+  const rawOffset = renditionOffset + rendition.length;
+  const previewOffset = rawOffset + raw.length;
+  const ifd0Offset = previewOffset + preview.length + (preview.length % 2);
+  const ifd0Entries = 14;
+  const subIfdOffset = ifd0Offset + 2 + ifd0Entries * 12 + 4 + 64;
+  const previewIfdOffset = subIfdOffset + 2 + 11 * 12 + 4 + 64;
+  const image = (offset: number, subfileType: number, w: number, h: number, bits: number, photometric: number, bytes: number): Entry[] => [
+    [0x00fe, 4, [subfileType]],
+    [0x0100, 4, [w]],
+    [0x0101, 4, [h]],
+    [0x0102, 3, [bits, bits, bits]],
+    [0x0103, 3, [1]],
+    [0x0106, 3, [photometric]],
+    [0x0111, 4, [offset]],
+    [0x0115, 3, [3]],
+    [0x0116, 4, [h]],
+    [0x0117, 4, [bytes]],
+    [0x011c, 3, [1]]
+  ];
+  const ifd0: Entry[] = [
+    ...image(renditionOffset, 1, width, height, 8, 2, rendition.length),
+    [0x014a, 4, preview.length > 0 ? [subIfdOffset, previewIfdOffset] : [subIfdOffset]],
+    [0xc612, 1, [1, 4, 0, 0]],
+    [0xc628, 5, asShotNeutral || [1, 1, 1]]
+  ];
+  const subIfd = image(rawOffset, 0, rawWidth, rawHeight, 16, 34892, raw.length);
+  const previewIfd: Entry[] = [[0x00fe, 4, [1]], [0x0103, 3, [7]], [0x0111, 4, [previewOffset]], [0x0117, 4, [preview.length]]];
+
+  const writeIfd = (entries: Entry[], offset: number, extra: number): Buffer => {
+    const buffer = Buffer.alloc(2 + entries.length * 12 + 4 + extra);
+    buffer.writeUInt16LE(entries.length, 0);
+    let extraOffset = 2 + entries.length * 12 + 4;
+    entries.forEach(([tag, type, values], index) => {
+      const position = 2 + index * 12;
+      buffer.writeUInt16LE(tag, position);
+      buffer.writeUInt16LE(type, position + 2);
+      buffer.writeUInt32LE(values.length, position + 4);
+      const inline = sizes[type] * values.length <= 4;
+      let valuePosition = inline ? position + 8 : extraOffset;
+      if (!inline) {
+        buffer.writeUInt32LE(offset + extraOffset, position + 8);
+        extraOffset += sizes[type] * values.length;
+      }
+      for (const value of values) {
+        if (type === 1) buffer.writeUInt8(value, valuePosition);
+        if (type === 3) buffer.writeUInt16LE(value, valuePosition);
+        if (type === 4) buffer.writeUInt32LE(value, valuePosition);
+        if (type === 5) {
+          buffer.writeUInt32LE(Math.round(value * 10000), valuePosition);
+          buffer.writeUInt32LE(10000, valuePosition + 4);
+        }
+        valuePosition += sizes[type];
+      }
+    });
+    return buffer;
+  };
+
+  const header = Buffer.alloc(8);
+  header.write('II', 0);
+  header.writeUInt16LE(42, 2);
+  header.writeUInt32LE(ifd0Offset, 4);
+  await fs.writeFile(filePath, Buffer.concat([
+    header,
+    rendition,
+    raw,
+    preview,
+    Buffer.alloc(preview.length % 2),
+    writeIfd(ifd0, ifd0Offset, 64),
+    writeIfd(subIfd, subIfdOffset, 64),
+    ...(preview.length > 0 ? [writeIfd(previewIfd, previewIfdOffset, 0)] : [])
+  ]));
+}
+
+/**
+ * Build an ICC v2 matrix/TRC RGB profile with D50-adapted colorants and a single gamma for all channels
+ */
+function createMatrixProfile(description: string, colorants: number[][], gamma: number): Buffer {
+  const s15Fixed16 = (value: number) => {
+    const bytes = Buffer.alloc(4);
+    bytes.writeInt32BE(Math.round(value * 65536));
+    return bytes;
+  };
+  const xyz = ([x, y, z]: number[]) => Buffer.concat([Buffer.from('XYZ \0\0\0\0', 'latin1'), s15Fixed16(x), s15Fixed16(y), s15Fixed16(z)]);
+
+  const desc = Buffer.alloc(12 + description.length + 1 + 79);
+  desc.write('desc', 0, 'latin1');
+  desc.writeUInt32BE(description.length + 1, 8);
+  desc.write(description, 12, 'latin1');
+  const curve = Buffer.alloc(16);
+  curve.write('curv', 0, 'latin1');
+  curve.writeUInt32BE(1, 8);
+  curve.writeUInt16BE(Math.round(gamma * 256), 12);
+
+  const tags: [string, Buffer][] = [
+    ['desc', desc],
+    ['wtpt', xyz([0.9642, 1, 0.8249])],
+    ['rXYZ', xyz(colorants[0])],
+    ['gXYZ', xyz(colorants[1])],
+    ['bXYZ', xyz(colorants[2])],
+    ['rTRC', curve],
+    ['gTRC', curve],
+    ['bTRC', curve]
+  ];
+  const table = Buffer.alloc(4 + tags.length * 12);
+  table.writeUInt32BE(tags.length, 0);
+  const bodies: Buffer[] = [];
+  let offset = 128 + table.length;
+  tags.forEach(([signature, data], index) => {
+    const padded = Buffer.concat([data, Buffer.alloc((4 - data.length % 4) % 4)]);
+    table.write(signature, 4 + index * 12, 'latin1');
+    table.writeUInt32BE(offset, 8 + index * 12);
+    table.writeUInt32BE(data.length, 12 + index * 12);
+    bodies.push(padded);
+    offset += padded.length;
+  });
+
+  // Header: size, version 2.1, display class, RGB data, XYZ connection space, 'acsp' and the D50 illuminant
+  const header = Buffer.alloc(128);
+  header.writeUInt32BE(offset, 0);
+  header.writeUInt32BE(0x02100000, 8);
+  header.write('mntrRGB XYZ ', 12, 'latin1');
+  header.write('acsp', 36, 'latin1');
+  s15Fixed16(0.9642).copy(header, 68);
+  s15Fixed16(1).copy(header, 72);
+  s15Fixed16(0.8249).copy(header, 76);
+  return Buffer.concat([header, table, ...bodies]);
+}
+
 /**
  * Create a minimal valid test image for testing purposes
  * @param filePath - Path where to create the test image
  * @param format - Image format to create
  */
-async function createTestImage(filePath: string, format: 'jpeg' | 'png'): Promise<void> {
+async function createTestImage(filePath: string, format: 'jpeg' | 'png' | 'webp'): Promise<void> {
   const sharp = require('sharp');
   
   // Create a simple 100x100 colored square
@@ -179,5 +1530,7 @@ async function createTestImage(filePath: string, format: 'jpeg' | 'png'): Promis
     await image.jpeg({ quality: 90 }).toFile(filePath);
   } else if (format === 'png') {
     await image.png().toFile(filePath);
+  } else if (format === 'webp') {
+    await image.webp({ lossless: true, effort: 6 }).toFile(filePath);
   }
 }
\ No newline at end of file
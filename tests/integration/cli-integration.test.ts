@@ -123,6 +123,18 @@ describe('CLI Integration Tests', () => {
     expect(result.stderr).toContain('Quality must be');
   });
 
+  it('should reject a perceptual target given both as SSIM and as DSSIM', async () => {
+    const result = await runCLI([
+      testImagesDir,
+      outputDir,
+      '--target-ssim', '0.95',
+      '--target-dssim', '0.01'
+    ]);
+
+    expect(result.exitCode).toBe(2); // Configuration error exit code
+    expect(result.stderr).toContain('cannot be combined');
+  });
+
   it('should process with concurrency setting', async () => {
     const result = await runCLI([
       testImagesDir, 
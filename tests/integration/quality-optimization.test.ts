@@ -49,6 +49,39 @@ describe('Quality Optimization Integration Tests', () => {
       expect(graphicResult.reasoning).toContain('Quality');
     });
 
+    it('should recommend lossless encoding and icon tuning for palette graphics', async () => {
+      const graphicPath = path.join(testImagesDir, 'logo.png');
+      await createGraphicLikeImage(graphicPath);
+
+      const qualityCalculator = new DynamicQualityCalculator(70);
+      const result = await qualityCalculator.calculateOptimalQuality(graphicPath);
+
+      expect(result.encodingMode).toBe('lossless');
+      expect(result.encodingProfile).toBe('icon');
+
+      const converter = new WebPConverter();
+      const conversionResult = await converter.convertToFormat(
+        graphicPath,
+        path.join(outputDir, 'logo.webp'),
+        'webp',
+        result.quality,
+        1920,
+        1080,
+        { encodingMode: result.encodingMode, encodingProfile: result.encodingProfile }
+      );
+
+      expect(conversionResult.status).toBe('success');
+      expect(conversionResult.encodingMode).toBe('lossless');
+      expect(conversionResult.encodingProfile).toBe('icon');
+
+      // A greyscale graphic has a single channel, its few grey levels are still a small palette
+      const greyPath = path.join(testImagesDir, 'grey-logo.png');
+      await createGreyscaleGraphicImage(greyPath);
+      expect((await require('sharp')(greyPath).metadata()).channels).toBe(1);
+      const greyResult = await qualityCalculator.calculateOptimalQuality(greyPath);
+      expect(greyResult.encodingMode).toBe('lossless');
+    });
+
     it('should respect minimum quality threshold', async () => {
       const testImagePath = path.join(testImagesDir, 'test.jpg');
       await createTestImage(testImagePath, 'jpeg');
@@ -168,6 +201,36 @@ describe('Quality Optimization Integration Tests', () => {
     });
   });
 
+  describe('Format Detection', () => {
+    it('should tell TIFF, DNG and WebP inputs apart by their headers', async () => {
+      const sharp = require('sharp');
+      const tiffPath = path.join(testImagesDir, 'scan.tif');
+      const dngPath = path.join(testImagesDir, 'raw.dng');
+      const webpPath = path.join(testImagesDir, 'existing.webp');
+
+      await sharp({ create: { width: 50, height: 50, channels: 3, background: { r: 10, g: 20, b: 30 } } })
+        .tiff()
+        .toFile(tiffPath);
+      await sharp({ create: { width: 50, height: 50, channels: 3, background: { r: 10, g: 20, b: 30 } } })
+        .webp()
+        .toFile(webpPath);
+
+      // Little-endian TIFF header with a single IFD entry: DNGVersion (0xC612), 4 bytes, 1.4.0.0
+      await fs.writeFile(dngPath, Buffer.from([
+        0x49, 0x49, 0x2A, 0x00, 0x08, 0x00, 0x00, 0x00,
+        0x01, 0x00,
+        0x12, 0xC6, 0x01, 0x00, 0x04, 0x00, 0x00, 0x00, 0x01, 0x04, 0x00, 0x00,
+        0x00, 0x00, 0x00, 0x00
+      ]));
+
+      const formatDetector = new FormatDetector(['tif', 'dng', 'webp']);
+      expect(await formatDetector.detectFormat(tiffPath)).toBe('tiff');
+      expect(await formatDetector.detectFormat(dngPath)).toBe('dng');
+      expect(await formatDetector.detectFormat(webpPath)).toBe('webp');
+      expect(formatDetector.isFormatSupported('tiff')).toBe(true);
+    });
+  });
+
   describe('End-to-End Quality Optimization', () => {
     it('should optimize image with quality validation', async () => {
       const originalPath = path.join(testImagesDir, 'test.jpg');
@@ -209,6 +272,95 @@ describe('Quality Optimization Integration Tests', () => {
       expect(outputStats.size).toBeGreaterThan(0);
     });
 
+    it('should encode AVIF output through the same pipeline', async () => {
+      const originalPath = path.join(testImagesDir, 'hero.jpg');
+      const optimizedPath = path.join(outputDir, 'hero.avif');
+      
+      await createPhotoLikeImage(originalPath);
+
+      const qualityCalculator = new DynamicQualityCalculator(70);
+      const qualityResult = await qualityCalculator.calculateOptimalQuality(originalPath);
+
+      const converter = new WebPConverter();
+      const conversionResult = await converter.convertToAVIF(
+        originalPath, 
+        optimizedPath, 
+        qualityResult.quality
+      );
+
+      expect(conversionResult.status).toBe('success');
+      expect(conversionResult.format).toBe('avif');
+      expect(conversionResult.qualityScore).toBe(qualityResult.quality);
+      expect(conversionResult.encoderQuality).toBeLessThan(qualityResult.quality);
+
+      const validator = new QualityValidator(70);
+      const validation = await validator.validateOutputQuality(
+        originalPath, 
+        optimizedPath, 
+        qualityResult.quality
+      );
+
+      expect(validation.isValid).toBe(true);
+    });
+
+    it('should convert animated GIFs to animated WebP keeping frame timing', async () => {
+      const originalPath = path.join(testImagesDir, 'spinner.gif');
+      const optimizedPath = path.join(outputDir, 'spinner.webp');
+
+      await createAnimatedGif(originalPath, 3, 100);
+
+      const formatDetector = new FormatDetector();
+      expect(await formatDetector.detectFormat(originalPath)).toBe('gif');
+
+      const converter = new WebPConverter();
+      const conversionResult = await converter.convertToWebP(originalPath, optimizedPath, 80);
+
+      expect(conversionResult.status).toBe('success');
+      expect(conversionResult.animation?.frameCount).toBe(3);
+      expect(conversionResult.animation?.loop).toBe(0);
+      expect(conversionResult.animation?.delay).toEqual([100, 100, 100]);
+      expect(conversionResult.animation?.bytesSaved).toBe(conversionResult.originalSize - conversionResult.optimizedSize);
+
+      const sharp = require('sharp');
+      const outputMetadata = await sharp(optimizedPath).metadata();
+      expect(outputMetadata.pages).toBe(3);
+      expect(outputMetadata.delay).toEqual([100, 100, 100]);
+    });
+
+    it('should watermark every frame of an animated output', async () => {
+      const originalPath = path.join(testImagesDir, 'spinner.gif');
+      const logoPath = path.join(testImagesDir, 'logo.png');
+      const optimizedPath = path.join(outputDir, 'spinner.webp');
+
+      await createAnimatedGif(originalPath, 3, 100);
+
+      const sharp = require('sharp');
+      await sharp({
+        create: { width: 16, height: 16, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 1 } }
+      }).png().toFile(logoPath);
+
+      const converter = new WebPConverter();
+      const conversionResult = await converter.convertToFormat(originalPath, optimizedPath, 'webp', 90, 1920, 1080, {
+        watermark: { image: logoPath, text: null, position: 'bottom_right', margin: 0, opacity: 1, scale: 0.25, tile: false }
+      });
+
+      expect(conversionResult.status).toBe('success');
+      expect(conversionResult.watermarked).toBe(true);
+      expect(conversionResult.animation?.frameCount).toBe(3);
+
+      // Frames are stacked vertically: the 4px mark sits in the bottom-right corner of each one
+      const { data, info } = await sharp(optimizedPath, { animated: true }).raw().toBuffer({ resolveWithObject: true });
+      expect(info.height).toBe(48);
+      for (let frame = 0; frame < 3; frame++) {
+        const pixel = (x: number, y: number) => {
+          const offset = ((frame * 16 + y) * info.width + x) * info.channels;
+          return Math.max(data[offset], data[offset + 1], data[offset + 2]);
+        };
+        expect(pixel(14, 14)).toBeLessThan(64);
+        expect(pixel(4, 4)).toBeGreaterThan(128);
+      }
+    });
+
     it('should handle different image formats consistently', async () => {
       const formats = [
         { ext: 'jpg', format: 'jpeg' as const },
@@ -289,6 +441,30 @@ async function createGraphicLikeImage(filePath: string): Promise<void> {
     .toFile(filePath);
 }
 
+/**
+ * Create a single-channel graphic of 5px blocks in 16 grey levels
+ */
+async function createGreyscaleGraphicImage(filePath: string): Promise<void> {
+  const sharp = require('sharp');
+
+  const pixels = Buffer.alloc(200 * 150);
+  let seed = 7;
+  for (let y = 0; y < 150; y += 5) {
+    for (let x = 0; x < 200; x += 5) {
+      seed = (seed * 16807) % 2147483647;
+      const level = (seed % 16) * 17;
+      for (let row = y; row < y + 5; row++) {
+        pixels.fill(level, row * 200 + x, row * 200 + x + 5);
+      }
+    }
+  }
+
+  await sharp(pixels, { raw: { width: 200, height: 150, channels: 1 } })
+    .toColourspace('b-w')
+    .png()
+    .toFile(filePath);
+}
+
 /**
  * Create a basic test image
  */
@@ -309,4 +485,73 @@ async function createTestImage(filePath: string, format: 'jpeg' | 'png'): Promis
   } else {
     await image.png().toFile(filePath);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Create an animated GIF with solid-colour frames
+ * Frames are LZW coded with a clear code every two pixels so the code width stays at 3 bits
+ */
+async function createAnimatedGif(filePath: string, frameCount: number, delayMs: number): Promise<void> {
+  const width = 16;
+  const height = 16;
+  const bytes: number[] = [];
+  const pushWord = (value: number) => bytes.push(value & 0xFF, value >> 8);
+
+  // Header, logical screen descriptor and 4-colour global palette
+  bytes.push(...Buffer.from('GIF89a'));
+  pushWord(width);
+  pushWord(height);
+  bytes.push(0xF1, 0, 0);
+  bytes.push(255, 0, 0, 0, 255, 0, 0, 0, 255, 255, 255, 255);
+
+  // NETSCAPE2.0 application extension: loop forever
+  bytes.push(0x21, 0xFF, 0x0B, ...Buffer.from('NETSCAPE2.0'), 0x03, 0x01, 0x00, 0x00, 0x00);
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    // Graphic control extension with frame delay in centiseconds
+    bytes.push(0x21, 0xF9, 0x04, 0x04);
+    pushWord(delayMs / 10);
+    bytes.push(0x00, 0x00);
+
+    // Image descriptor covering the full canvas
+    bytes.push(0x2C);
+    pushWord(0);
+    pushWord(0);
+    pushWord(width);
+    pushWord(height);
+    bytes.push(0x00);
+
+    // LZW data: minimum code size 2, clear code 4, end code 5
+    const codes: number[] = [];
+    for (let pixel = 0; pixel < width * height; pixel += 2) {
+      codes.push(4, frame % 4, frame % 4);
+    }
+    codes.push(5);
+
+    const data: number[] = [];
+    let bitBuffer = 0;
+    let bitCount = 0;
+    for (const code of codes) {
+      bitBuffer |= code << bitCount;
+      bitCount += 3;
+      while (bitCount >= 8) {
+        data.push(bitBuffer & 0xFF);
+        bitBuffer >>= 8;
+        bitCount -= 8;
+      }
+    }
+    if (bitCount > 0) {
+      data.push(bitBuffer & 0xFF);
+    }
+
+    bytes.push(0x02);
+    for (let offset = 0; offset < data.length; offset += 255) {
+      const block = data.slice(offset, offset + 255);
+      bytes.push(block.length, ...block);
+    }
+    bytes.push(0x00);
+  }
+
+  bytes.push(0x3B);
+  await fs.writeFile(filePath, Buffer.from(bytes));
+}